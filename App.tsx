@@ -1,17 +1,31 @@
-import React, { useState } from 'react';
+import React, { useState, useRef } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { DataConfig } from './components/DataConfig';
 import { CorrelationMatrix } from './components/CorrelationMatrix';
-import { ParsedData, VariableData, Matrix } from './types';
-import { generateCorrelationMatrix } from './utils/statistics';
-import { BarChart3, RefreshCw, Loader2 } from 'lucide-react';
+import { MatrixComparison } from './components/MatrixComparison';
+import { RollingCorrelationView } from './components/RollingCorrelationView';
+import { TargetCorrelationChart } from './components/TargetCorrelationChart';
+import { ParsedData, VariableData, Matrix, AnalysisOptions, AnalysisProgress, MatrixSnapshot, TargetAnalysis } from './types';
+import { startAnalysis, RunningAnalysis } from './utils/analysisWorker';
+import { listComparisonSources } from './utils/comparison';
+import { formatRowFilter } from './utils/rowFilter';
+import { BarChart3, RefreshCw, Loader2, X, Bookmark, GitCompare, Grid3x3, LineChart } from 'lucide-react';
 
 function App() {
   const [step, setStep] = useState<'upload' | 'config' | 'result'>('upload');
   const [parsedData, setParsedData] = useState<ParsedData | null>(null);
   const [fileName, setFileName] = useState<string>("");
   const [matrix, setMatrix] = useState<Matrix | null>(null);
+  // Set instead of `matrix` when the analysis ran in one-vs-all target mode
+  const [targetAnalysis, setTargetAnalysis] = useState<TargetAnalysis | null>(null);
+  // Original series and observation names, kept for the scatter-plot drill-down
+  const [analyzedData, setAnalyzedData] = useState<{ variables: VariableData[]; observationLabels: string[] } | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const runningAnalysis = useRef<RunningAnalysis | null>(null);
+  // Saved results kept across uploads, so two files or two filters can be compared
+  const [snapshots, setSnapshots] = useState<MatrixSnapshot[]>([]);
+  const [resultView, setResultView] = useState<'matrix' | 'rolling' | 'compare'>('matrix');
 
   const handleDataLoaded = (data: ParsedData, name: string) => {
     setParsedData(data);
@@ -19,21 +33,58 @@ function App() {
     setStep('config');
   };
 
-  const handleAnalyze = (variables: VariableData[]) => {
+  const handleAnalyze = (variables: VariableData[], options: AnalysisOptions, observationLabels: string[]) => {
     setIsAnalyzing(true);
-    // Use setTimeout to allow UI to update before heavy calculation
-    setTimeout(() => {
-      const result = generateCorrelationMatrix(variables);
-      setMatrix(result);
-      setIsAnalyzing(false);
-      setStep('result');
-    }, 50);
+    setProgress(null);
+
+    // Heavy calculation runs in a Web Worker so the overlay stays responsive
+    const run = startAnalysis(variables, options, setProgress);
+    runningAnalysis.current = run;
+
+    run.result
+      .then(result => {
+        if (runningAnalysis.current !== run) return;
+        setMatrix(result.type === 'matrix' ? result.matrix : null);
+        setTargetAnalysis(result.type === 'target' ? result.analysis : null);
+        setAnalyzedData({ variables, observationLabels });
+        setResultView('matrix');
+        setStep('result');
+      })
+      .catch(err => {
+        if (runningAnalysis.current !== run) return;
+        console.error(err);
+        alert("計算相關係數時發生錯誤，請確認資料後再試一次");
+      })
+      .finally(() => {
+        if (runningAnalysis.current !== run) return;
+        runningAnalysis.current = null;
+        setIsAnalyzing(false);
+      });
+  };
+
+  // Stop the running analysis and stay on the config step
+  const handleCancelAnalysis = () => {
+    runningAnalysis.current?.cancel();
+    runningAnalysis.current = null;
+    setIsAnalyzing(false);
+    setProgress(null);
+  };
+
+  const handleSaveSnapshot = () => {
+    if (!matrix) return;
+    const suggested = matrix.rowFilter ? `${fileName} [${formatRowFilter(matrix.rowFilter)}]` : fileName;
+    const label = window.prompt("快照名稱", suggested);
+    if (label === null) return;
+    setSnapshots(prev => [...prev, { id: Date.now(), label: label.trim() || suggested, matrix }]);
   };
 
   const handleReset = () => {
+    handleCancelAnalysis();
     setParsedData(null);
     setFileName("");
     setMatrix(null);
+    setTargetAnalysis(null);
+    setAnalyzedData(null);
     setStep('upload');
   };
 
@@ -123,23 +174,103 @@ function App() {
               {/* Loading Overlay */}
               {isAnalyzing && (
                 <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50">
-                  <div className="bg-white rounded-xl p-8 shadow-2xl flex flex-col items-center gap-4">
+                  <div className="bg-white rounded-xl p-8 shadow-2xl flex flex-col items-center gap-4 w-80">
                     <Loader2 className="w-12 h-12 text-blue-600 animate-spin" />
                     <p className="text-slate-700 font-medium">正在計算相關係數...</p>
+                    {/* Progress Bar */}
+                    <div className="w-full">
+                      <div className="h-2 w-full bg-slate-100 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-blue-600 rounded-full transition-all duration-200"
+                          style={{ width: `${progress && progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}%` }}
+                        />
+                      </div>
+                      <p className="mt-1 text-xs text-slate-500 text-center font-mono">
+                        {progress
+                          ? `${progress.completed.toLocaleString()} / ${progress.total.toLocaleString()} 組配對`
+                          : '準備中...'}
+                      </p>
+                    </div>
+                    <button
+                      onClick={handleCancelAnalysis}
+                      className="flex items-center gap-1.5 text-sm text-slate-500 hover:text-red-600 px-3 py-1.5 rounded-md hover:bg-slate-100 transition-colors"
+                    >
+                      <X className="w-4 h-4" />
+                      取消分析
+                    </button>
                   </div>
                 </div>
               )}
             </>
           )}
 
-          {step === 'result' && matrix && (
+          {step === 'result' && (matrix || targetAnalysis) && (
             <div className="space-y-6 animate-fade-in">
-              <div className="flex items-center justify-between">
+              <div className="flex flex-wrap items-center justify-between gap-4">
                 <h2 className="text-2xl font-bold text-slate-800">
                   分析報告：<span className="text-blue-600">{fileName}</span>
                 </h2>
+                {matrix && (
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={handleSaveSnapshot}
+                      className="flex items-center gap-1.5 text-sm text-slate-600 px-3 py-1.5 rounded-md border border-slate-200 bg-white hover:bg-slate-50 transition-colors"
+                      title="保留此結果，之後可與其他檔案或篩選條件的結果比較"
+                    >
+                      <Bookmark className="w-4 h-4" />
+                      儲存快照{snapshots.length > 0 && `（${snapshots.length}）`}
+                    </button>
+                    <div className="flex rounded-md overflow-hidden border border-slate-200">
+                      <button
+                        onClick={() => setResultView('matrix')}
+                        className={`flex items-center gap-1.5 px-3 py-1.5 text-sm transition-colors ${resultView === 'matrix' ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                      >
+                        <Grid3x3 className="w-4 h-4" />
+                        矩陣
+                      </button>
+                      {matrix.rolling && (
+                        <button
+                          onClick={() => setResultView('rolling')}
+                          className={`flex items-center gap-1.5 px-3 py-1.5 text-sm border-l border-slate-200 transition-colors ${resultView === 'rolling' ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                        >
+                          <LineChart className="w-4 h-4" />
+                          滾動
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setResultView('compare')}
+                        className={`flex items-center gap-1.5 px-3 py-1.5 text-sm border-l border-slate-200 transition-colors ${resultView === 'compare' ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+                      >
+                        <GitCompare className="w-4 h-4" />
+                        比較
+                      </button>
+                    </div>
+                  </div>
+                )}
               </div>
-              <CorrelationMatrix matrix={matrix} />
+              {targetAnalysis ? (
+                <TargetCorrelationChart
+                  analysis={targetAnalysis}
+                  data={analyzedData?.variables}
+                  observationLabels={analyzedData?.observationLabels}
+                />
+              ) : !matrix ? null : resultView === 'matrix' ? (
+                <CorrelationMatrix
+                  matrix={matrix}
+                  data={analyzedData?.variables}
+                  observationLabels={analyzedData?.observationLabels}
+                />
+              ) : resultView === 'rolling' && matrix.rolling ? (
+                <RollingCorrelationView matrix={matrix} />
+              ) : (
+                <MatrixComparison
+                  sources={listComparisonSources([
+                    // Once saved, the current result is already listed as its snapshot
+                    ...(snapshots.some(s => s.matrix === matrix) ? [] : [{ id: 0, label: `目前結果：${fileName}`, matrix }]),
+                    ...snapshots,
+                  ])}
+                />
+              )}
               
               <div className="bg-blue-50 border border-blue-100 rounded-lg p-4 text-sm text-blue-800">
                 <strong>解讀指南：</strong>
@@ -1,18 +1,150 @@
-import React, { useState } from 'react';
-import { Matrix } from '../types';
+import React, { useState, useMemo, useRef } from 'react';
+import { Matrix, MatrixOrdering, PValueAdjustment, VariableData } from '../types';
 import * as d3 from 'd3';
 import * as XLSX from 'xlsx';
 import ExcelJS from 'exceljs';
-import { Download, ZoomIn, ZoomOut, FileSpreadsheet, FileText } from 'lucide-react';
+import { CORRELATION_METHOD_LABELS, CORRELATION_METHOD_SYMBOLS, UNDEFINED_REASON_LABELS, getSignificanceStars, formatPValue, getCorrelationResult, listCorrelationPairs, isSquareMatrix, getPairKey } from '../utils/statistics';
+import { P_VALUE_ADJUSTMENT_LABELS, adjustMatrixPValues } from '../utils/multipleComparisons';
+import { MISSING_DATA_STRATEGY_LABELS, applyMissingDataStrategy } from '../utils/missingData';
+import { formatRowFilter } from '../utils/rowFilter';
+import { downloadBlob } from '../utils/download';
+import { MATRIX_ORDERING_LABELS, computeOrdering, reorderMatrix } from '../utils/ordering';
+import { Dendrogram } from './Dendrogram';
+import { ScatterPlot } from './ScatterPlot';
+import { CrossCorrelationChart } from './CrossCorrelationChart';
+import { PairTable } from './PairTable';
+import { GroupSmallMultiples, GroupPanel } from './GroupSmallMultiples';
+import { Download, ZoomIn, ZoomOut, FileSpreadsheet, FileText, EyeOff, Hash, AlertTriangle, ListOrdered } from 'lucide-react';
 
 interface CorrelationMatrixProps {
   matrix: Matrix;
+  data?: VariableData[]; // Original series, enables the scatter-plot drill-down
+  observationLabels?: string[];
 }
 
-export const CorrelationMatrix: React.FC<CorrelationMatrixProps> = ({ matrix }) => {
-  const { variables, grid } = matrix;
+const SIGNIFICANCE_LEVELS = [0.05, 0.01, 0.001];
+const CONFIDENCE_LEVELS = [0.9, 0.95, 0.99];
+
+// Cells at least this large get a confidence interval bar
+const INTERVAL_BAR_MIN_CELL_SIZE = 100;
+
+// Diagonal stripes drawn over cells whose pairwise N is below the minimum
+const LOW_N_HATCH = 'repeating-linear-gradient(45deg, rgba(15,23,42,0.18) 0, rgba(15,23,42,0.18) 2px, transparent 2px, transparent 7px)';
+
+// Undefined correlations (constant series, too few pairs) are written as NA
+const UNDEFINED_CELL_COLOR = '#e2e8f0';
+const UNDEFINED_EXPORT_VALUE = 'NA';
+
+type CellDisplay = 'coefficient' | 'sampleSize';
+
+const formatLag = (lag: number) => (lag > 0 ? `+${lag}` : `${lag}`);
+
+type GroupView = 'tabs' | 'smallMultiples';
+
+// Thickness of the dendrograms drawn along the top and left edges
+const DENDROGRAM_DEPTH = 80;
+
+export const CorrelationMatrix: React.FC<CorrelationMatrixProps> = ({ matrix: sourceMatrix, data, observationLabels }) => {
+  const [ordering, setOrdering] = useState<MatrixOrdering>('original');
+  const [drillDown, setDrillDown] = useState<{ rowVar: string, colVar: string } | null>(null);
+
+  // Group-by results: -1 shows all observations, otherwise the index of the group
+  const groupBy = sourceMatrix.groupBy;
+  const [activeGroup, setActiveGroup] = useState(-1);
+  const [groupView, setGroupView] = useState<GroupView>('tabs');
+  const activeGroupInfo = groupBy && activeGroup >= 0 ? groupBy.groups[activeGroup] : null;
+  const viewMatrix = activeGroupInfo ? activeGroupInfo.matrix : sourceMatrix;
+  const groupPanels: GroupPanel[] = groupBy ? [
+    { key: -1, name: '全部', size: groupBy.groups.reduce((sum, g) => sum + g.size, 0), isSmall: false, matrix: sourceMatrix },
+    ...groupBy.groups.map((g, i) => ({ key: i, name: g.name, size: g.size, isSmall: g.isSmall, matrix: g.matrix })),
+  ] : [];
+
+  // Series and labels of the observations behind the matrix on screen
+  const viewData = useMemo(
+    () => activeGroupInfo && data
+      ? data.map(v => ({ name: v.name, values: activeGroupInfo.rowIndices.map(i => v.values[i]) }))
+      : data,
+    [activeGroupInfo, data]
+  );
+  const viewObservationLabels = activeGroupInfo && observationLabels
+    ? activeGroupInfo.rowIndices.map(i => observationLabels[i])
+    : observationLabels;
+
+  // Everything below (cells, tooltips, exports) works on the reordered matrix.
+  // The order comes from the overall matrix so every group is laid out the same way.
+  const { rowOrder, columnOrder, rowDendrogram, columnDendrogram } = useMemo(
+    () => computeOrdering(sourceMatrix, ordering),
+    [sourceMatrix, ordering]
+  );
+  const matrix = useMemo(() => reorderMatrix(viewMatrix, rowOrder, columnOrder), [viewMatrix, rowOrder, columnOrder]);
+  const { rowVariables, columnVariables, grid, pValues, sampleSizes, undefinedReasons, method, missingData, rowFilter, controlVariables = [], lag } = matrix;
+  const methodLabel = CORRELATION_METHOD_LABELS[method];
+  const methodSymbol = CORRELATION_METHOD_SYMBOLS[method];
   const [hoverCell, setHoverCell] = useState<{ r: number, c: number } | null>(null);
+  // The mirror of the hovered pair is outlined too; in an A × B matrix it may not exist
+  const hoveredKey = hoverCell ? getPairKey(rowVariables[hoverCell.r], columnVariables[hoverCell.c]) : null;
   const [cellSize, setCellSize] = useState(80); // Default cell size in pixels
+  const [hideNonSignificant, setHideNonSignificant] = useState(false);
+  const [alpha, setAlpha] = useState(0.05);
+  const [adjustment, setAdjustment] = useState<PValueAdjustment>('none');
+  const [confidenceLevel, setConfidenceLevel] = useState(0.95);
+  const [cellDisplay, setCellDisplay] = useState<CellDisplay>('coefficient');
+  const [minSampleSize, setMinSampleSize] = useState(10);
+
+  const square = isSquareMatrix(matrix);
+  const hasDendrograms = rowDendrogram !== null && columnDendrogram !== null;
+  // In an A × B matrix a variable can sit on both axes; its self cell is matched by name
+  const isSelfCell = (rIdx: number, cIdx: number) => rowVariables[rIdx] === columnVariables[cIdx];
+  const isLowSampleSize = (rIdx: number, cIdx: number) => !isSelfCell(rIdx, cIdx) && sampleSizes[rIdx][cIdx] < minSampleSize;
+
+  // p-values after multiple-comparison correction; these drive stars, filtering and exports
+  const adjustedPValues = useMemo(
+    () => adjustMatrixPValues(pValues, adjustment, rowVariables, columnVariables),
+    [pValues, adjustment, rowVariables, columnVariables]
+  );
+  const pValueLabel = adjustment === 'none' ? 'p 值' : `p 值 (${P_VALUE_ADJUSTMENT_LABELS[adjustment]} 校正)`;
+
+  // Ranked list of every pair, shown next to the heatmap
+  const [showPairTable, setShowPairTable] = useState(false);
+  const [selectedPair, setSelectedPair] = useState<{ var1: string, var2: string } | null>(null);
+  const heatmapRef = useRef<HTMLDivElement>(null);
+  const pairs = useMemo(
+    () => showPairTable ? listCorrelationPairs(matrix, confidenceLevel, adjustedPValues) : [],
+    [showPairTable, matrix, confidenceLevel, adjustedPValues]
+  );
+  // Both the cell and its mirror are highlighted, wherever they appear
+  const selectedKey = selectedPair ? getPairKey(selectedPair.var1, selectedPair.var2) : null;
+
+  const handleSelectPair = (pair: { var1: string, var2: string }) => {
+    setSelectedPair({ var1: pair.var1, var2: pair.var2 });
+    let r = rowVariables.indexOf(pair.var1);
+    let c = columnVariables.indexOf(pair.var2);
+    if (r < 0 || c < 0) {
+      r = rowVariables.indexOf(pair.var2);
+      c = columnVariables.indexOf(pair.var1);
+    }
+    heatmapRef.current
+      ?.querySelector(`[data-cell="${r}-${c}"]`)
+      ?.scrollIntoView({ block: 'center', inline: 'center', behavior: 'smooth' });
+  };
+
+  const findSeries = (name: string) => viewData?.find(d => d.name === name);
+  const drillDownX = drillDown ? findSeries(drillDown.colVar) : undefined;
+  const drillDownY = drillDown ? findSeries(drillDown.rowVar) : undefined;
+
+  // The lag peaks were computed on the missing-data-treated series, so the
+  // cross-correlation curve is too; listwise deletion needs every variable
+  const strategy = missingData?.strategy;
+  const treatedViewData = useMemo(
+    () => lag && drillDown && viewData && strategy ? applyMissingDataStrategy(viewData, strategy).variables : viewData,
+    [lag, drillDown, viewData, strategy]
+  );
+  const findTreatedSeries = (name: string) => treatedViewData?.find(d => d.name === name);
+  const lagDrillDownX = drillDown ? findTreatedSeries(drillDown.colVar) : undefined;
+  const lagDrillDownY = drillDown ? findTreatedSeries(drillDown.rowVar) : undefined;
+
+  // A cell is "not significant" when its p-value is above alpha or cannot be tested
+  const isNonSignificant = (pValue: number | null) => pValue === null || pValue > alpha;
 
   // Color scale setup
   // 1 = Deep Red, 0 = White, -1 = Deep Blue
@@ -30,31 +162,36 @@ export const CorrelationMatrix: React.FC<CorrelationMatrixProps> = ({ matrix })
   const handleExport = async (type: 'csv' | 'xlsx') => {
     if (type === 'csv') {
       // CSV does not support colors, use simple XLSX utility
-      const headerRow = ['變數', ...variables];
-      const dataRows = variables.map((v, i) => [v, ...grid[i]]);
-      const allData = [headerRow, ...dataRows];
+      const headerRow = [`變數 (${methodLabel})`, ...columnVariables];
+      const dataRows = rowVariables.map((v, i) => [v, ...grid[i].map(val => val ?? UNDEFINED_EXPORT_VALUE)]);
+      const pValueHeaderRow = [pValueLabel, ...columnVariables];
+      const pValueRows = rowVariables.map((v, i) => [v, ...adjustedPValues[i].map(p => p ?? '')]);
+      const sampleSizeHeaderRow = ['樣本數 N', ...columnVariables];
+      const sampleSizeRows = rowVariables.map((v, i) => [v, ...sampleSizes[i]]);
+      const allData = [
+        headerRow, ...dataRows,
+        [], pValueHeaderRow, ...pValueRows,
+        [], sampleSizeHeaderRow, ...sampleSizeRows,
+      ];
+      if (lag) {
+        allData.push([], ['最佳延遲 (列)', ...columnVariables], ...rowVariables.map((v, i) => [v, ...lag.bestLags[i].map(l => l ?? '')]));
+      }
       const ws = XLSX.utils.aoa_to_sheet(allData);
       const csv = XLSX.utils.sheet_to_csv(ws);
       const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = `correlation_matrix_${new Date().toISOString().slice(0,10)}.csv`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      downloadBlob(blob, `correlation_matrix_${method}_${new Date().toISOString().slice(0,10)}.csv`);
     } else {
       // XLSX with styles using ExcelJS
       const workbook = new ExcelJS.Workbook();
       const sheet = workbook.addWorksheet('Correlation Matrix');
 
       // Add Headers
-      const headerRow = sheet.addRow(['', ...variables]);
+      const headerRow = sheet.addRow([methodLabel, ...columnVariables]);
       headerRow.font = { bold: true };
       
       // Add Data and Styles
-      variables.forEach((rowVar, rIdx) => {
-        const rowValues = [rowVar, ...grid[rIdx]];
+      rowVariables.forEach((rowVar, rIdx) => {
+        const rowValues = [rowVar, ...grid[rIdx].map(val => val ?? UNDEFINED_EXPORT_VALUE)];
         const row = sheet.addRow(rowValues);
 
         // Styling cells
@@ -62,9 +199,14 @@ export const CorrelationMatrix: React.FC<CorrelationMatrixProps> = ({ matrix })
           // cIdx + 2 because: column 1 is the variable name, column 2 starts data
           const cell = row.getCell(cIdx + 2);
           
-          if (rIdx === cIdx) {
+          if (isSelfCell(rIdx, cIdx)) {
              // Diagonal (Self)
              cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFF8FAFC' } };
+          } else if (val === null) {
+             // Undefined correlation
+             cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFE2E8F0' } };
+             cell.font = { italic: true, color: { argb: 'FF64748B' } };
+             cell.alignment = { horizontal: 'center' };
           } else {
              // Calculate Color
              // D3 often returns "rgb(r,g,b)" so we must convert to Hex
@@ -77,11 +219,10 @@ export const CorrelationMatrix: React.FC<CorrelationMatrixProps> = ({ matrix })
                 argbColor = 'FF' + d3Color.formatHex().substring(1).toUpperCase();
              }
              
-             cell.fill = {
-               type: 'pattern',
-               pattern: 'solid',
-               fgColor: { argb: argbColor }
-             };
+             // Low-N cells keep their color but get a hatched pattern
+             cell.fill = isLowSampleSize(rIdx, cIdx)
+               ? { type: 'pattern', pattern: 'lightUp', fgColor: { argb: 'FF64748B' }, bgColor: { argb: argbColor } }
+               : { type: 'pattern', pattern: 'solid', fgColor: { argb: argbColor } };
 
              // Text Color (White for dark backgrounds)
              if (Math.abs(val) > 0.5) {
@@ -93,16 +234,86 @@ export const CorrelationMatrix: React.FC<CorrelationMatrixProps> = ({ matrix })
         });
       });
 
+      // p-values on a separate sheet
+      const pValueSheet = workbook.addWorksheet('P Values');
+      const pValueHeader = pValueSheet.addRow([pValueLabel, ...columnVariables]);
+      pValueHeader.font = { bold: true };
+      rowVariables.forEach((rowVar, rIdx) => {
+        const row = pValueSheet.addRow([rowVar, ...adjustedPValues[rIdx].map(p => p ?? '')]);
+        adjustedPValues[rIdx].forEach((p, cIdx) => {
+          const cell = row.getCell(cIdx + 2);
+          cell.numFmt = '0.0000';
+          if (p !== null && p <= alpha) {
+            cell.font = { bold: true };
+          }
+        });
+      });
+
+      // Pairwise sample sizes on a separate sheet
+      const sampleSizeSheet = workbook.addWorksheet('Sample Sizes');
+      const sampleSizeHeader = sampleSizeSheet.addRow(['樣本數 N', ...columnVariables]);
+      sampleSizeHeader.font = { bold: true };
+      rowVariables.forEach((rowVar, rIdx) => {
+        const row = sampleSizeSheet.addRow([rowVar, ...sampleSizes[rIdx]]);
+        sampleSizes[rIdx].forEach((_, cIdx) => {
+          if (isLowSampleSize(rIdx, cIdx)) {
+            row.getCell(cIdx + 2).font = { color: { argb: 'FFDC2626' } };
+          }
+        });
+      });
+
+      // Lag of each peak; positive means the row variable leads
+      if (lag) {
+        const lagSheet = workbook.addWorksheet('Best Lags');
+        lagSheet.addRow(['最佳延遲 (列)', ...columnVariables]).font = { bold: true };
+        rowVariables.forEach((rowVar, rIdx) => {
+          lagSheet.addRow([rowVar, ...lag.bestLags[rIdx].map(l => l ?? UNDEFINED_EXPORT_VALUE)]);
+        });
+      }
+
+      // Analysis settings, so the report says how the numbers were produced
+      const infoSheet = workbook.addWorksheet('Info');
+      infoSheet.addRow(['計算方法', methodLabel]);
+      infoSheet.addRow(['多重比較校正', P_VALUE_ADJUSTMENT_LABELS[adjustment]]);
+      infoSheet.addRow(['排序方式', MATRIX_ORDERING_LABELS[ordering]]);
+      if (!square) {
+        infoSheet.addRow(['集合 A (列)', rowVariables.join(', ')]);
+        infoSheet.addRow(['集合 B (欄)', columnVariables.join(', ')]);
+      }
+      if (groupBy) {
+        infoSheet.addRow(['分組欄位', groupBy.column]);
+        infoSheet.addRow(['組別', activeGroupInfo
+          ? `${activeGroupInfo.name} (n=${activeGroupInfo.size}${activeGroupInfo.isSmall ? `，少於 ${groupBy.minGroupSize}` : ''})`
+          : '全部']);
+      }
+      if (controlVariables.length > 0) {
+        infoSheet.addRow(['偏相關控制變數', controlVariables.join(', ')]);
+      }
+      if (lag) {
+        infoSheet.addRow(['時間排序欄位', lag.orderColumn]);
+        infoSheet.addRow(['延遲範圍', `${lag.minLag} ~ ${lag.maxLag} 列`]);
+        infoSheet.addRow(['延遲 p 值', `峰值 p 值已依 ${lag.maxLag - lag.minLag + 1} 個延遲做 Bonferroni 校正`]);
+      }
+      if (sourceMatrix.rolling) {
+        const { rolling } = sourceMatrix;
+        infoSheet.addRow(['滾動視窗', `依 ${rolling.orderColumn} 排序，視窗 ${rolling.window} 列，間隔 ${rolling.step} 列，共 ${rolling.windows.length} 個視窗`]);
+      }
+      if (rowFilter) {
+        infoSheet.addRow(['資料篩選', formatRowFilter(rowFilter)]);
+        infoSheet.addRow(['符合篩選筆數', `${rowFilter.rowsPassed} / ${rowFilter.totalRows}`]);
+      }
+      if (missingData) {
+        infoSheet.addRow(['缺失值處理', MISSING_DATA_STRATEGY_LABELS[missingData.strategy]]);
+        infoSheet.addRow(['保留資料筆數', `${missingData.rowsKept} / ${missingData.totalRows}`]);
+        infoSheet.addRow(['插補格數', missingData.imputedCells]);
+      }
+      infoSheet.getColumn(1).font = { bold: true };
+      infoSheet.getColumn(1).width = 16;
+
       // Write buffer
       const buffer = await workbook.xlsx.writeBuffer();
       const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = `correlation_matrix_${new Date().toISOString().slice(0,10)}.xlsx`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      downloadBlob(blob, `correlation_matrix_${method}_${new Date().toISOString().slice(0,10)}.xlsx`);
     }
   };
 
@@ -112,10 +323,139 @@ export const CorrelationMatrix: React.FC<CorrelationMatrixProps> = ({ matrix })
       {/* Top Controls Bar */}
       <div className="flex flex-wrap items-center justify-between mb-4 gap-4">
         <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
-          相關係數矩陣熱圖
+          {lag ? '時間延遲相關矩陣（峰值）' : controlVariables.length > 0 ? '偏相關係數矩陣熱圖' : '相關係數矩陣熱圖'}
+          <span className="text-xs font-medium text-blue-700 bg-blue-50 border border-blue-100 rounded px-2 py-0.5">
+            {methodLabel}
+          </span>
+          {!square && (
+            <span
+              className="text-xs font-medium text-teal-800 bg-teal-50 border border-teal-200 rounded px-2 py-0.5"
+              title="列為集合 A、欄為集合 B，只計算兩集合之間的配對"
+            >
+              A × B · {rowVariables.length} × {columnVariables.length}
+            </span>
+          )}
+          {controlVariables.length > 0 && (
+            <span
+              className="text-xs font-medium text-amber-800 bg-amber-50 border border-amber-200 rounded px-2 py-0.5"
+              title="矩陣中的係數已排除控制變數的影響"
+            >
+              偏相關 · 控制：{controlVariables.join(', ')}
+            </span>
+          )}
+          {lag && (
+            <span
+              className="text-xs font-medium text-sky-800 bg-sky-50 border border-sky-200 rounded px-2 py-0.5"
+              title="每格顯示所有延遲中絕對值最大的相關係數；正延遲表示列變數領先欄變數"
+            >
+              延遲 {lag.minLag} ~ {lag.maxLag} 列 · 依 {lag.orderColumn} 排序
+            </span>
+          )}
+          {groupBy && (
+            <span
+              className={`text-xs font-medium rounded px-2 py-0.5 border ${
+                activeGroupInfo?.isSmall ? 'text-amber-800 bg-amber-50 border-amber-200' : 'text-violet-800 bg-violet-50 border-violet-200'
+              }`}
+            >
+              {groupBy.column} = {activeGroupInfo ? activeGroupInfo.name : '全部'}
+            </span>
+          )}
+          {rowFilter && (
+            <span
+              className="text-xs font-medium text-emerald-800 bg-emerald-50 border border-emerald-200 rounded px-2 py-0.5 max-w-[320px] truncate"
+              title={formatRowFilter(rowFilter)}
+            >
+              篩選：{formatRowFilter(rowFilter)} · {rowFilter.rowsPassed} / {rowFilter.totalRows} 列
+            </span>
+          )}
+          {missingData && (
+            <span
+              className="text-xs font-medium text-slate-600 bg-slate-50 border border-slate-200 rounded px-2 py-0.5"
+              title={missingData.imputedCells > 0 ? `插補 ${missingData.imputedCells} 格` : undefined}
+            >
+              {MISSING_DATA_STRATEGY_LABELS[missingData.strategy]} · 保留 {missingData.rowsKept} / {missingData.totalRows} 筆
+            </span>
+          )}
         </h3>
 
-        <div className="flex items-center gap-6">
+        <div className="flex flex-wrap items-center gap-6">
+          {/* Variable Ordering */}
+          <label className="flex items-center gap-2 bg-slate-100 p-2 rounded-lg text-sm text-slate-600">
+            排序
+            <select
+              value={ordering}
+              onChange={(e) => setOrdering(e.target.value as MatrixOrdering)}
+              className="px-1.5 py-0.5 text-xs border border-slate-300 rounded bg-white"
+              title="階層分群以 1 − |r| 為距離，將高度相關的變數排在一起"
+            >
+              {(Object.keys(MATRIX_ORDERING_LABELS) as MatrixOrdering[]).map(o => (
+                <option key={o} value={o} disabled={o === 'pcaAngle' && !square}>{MATRIX_ORDERING_LABELS[o]}</option>
+              ))}
+            </select>
+          </label>
+
+          {/* Cell Display & Minimum N */}
+          <div className="flex items-center gap-2 bg-slate-100 p-2 rounded-lg text-sm text-slate-600">
+            <div className="flex rounded overflow-hidden border border-slate-300 text-xs">
+              <button
+                onClick={() => setCellDisplay('coefficient')}
+                className={`px-2 py-0.5 ${cellDisplay === 'coefficient' ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+              >
+                係數
+              </button>
+              <button
+                onClick={() => setCellDisplay('sampleSize')}
+                className={`px-2 py-0.5 border-l border-slate-300 ${cellDisplay === 'sampleSize' ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'}`}
+              >
+                顯示 N
+              </button>
+            </div>
+            <label className="flex items-center gap-1" title="配對樣本數低於此值的格子以斜線標示">
+              <Hash className="w-4 h-4 text-slate-500" />
+              最小 N
+              <input
+                type="number"
+                min={2}
+                value={minSampleSize}
+                onChange={(e) => setMinSampleSize(Math.max(2, Number(e.target.value) || 2))}
+                className="w-14 px-1.5 py-0.5 text-xs border border-slate-300 rounded bg-white font-mono"
+              />
+            </label>
+          </div>
+
+          {/* Significance Filter */}
+          <div className="flex items-center gap-2 bg-slate-100 p-2 rounded-lg text-sm text-slate-600">
+            <select
+              value={adjustment}
+              onChange={(e) => setAdjustment(e.target.value as PValueAdjustment)}
+              className="px-1.5 py-0.5 text-xs border border-slate-300 rounded bg-white"
+              title="多重比較校正：同時檢定大量配對時，控制偽陽性"
+            >
+              {(Object.keys(P_VALUE_ADJUSTMENT_LABELS) as PValueAdjustment[]).map(m => (
+                <option key={m} value={m}>{P_VALUE_ADJUSTMENT_LABELS[m]}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1.5 cursor-pointer" title="將 p 值大於顯著水準的格子淡化">
+              <input
+                type="checkbox"
+                checked={hideNonSignificant}
+                onChange={(e) => setHideNonSignificant(e.target.checked)}
+                className="w-4 h-4 text-blue-600 rounded border-slate-300 focus:ring-blue-500"
+              />
+              <EyeOff className="w-4 h-4 text-slate-500" />
+              隱藏不顯著
+            </label>
+            <select
+              value={alpha}
+              onChange={(e) => setAlpha(Number(e.target.value))}
+              className="px-1.5 py-0.5 text-xs border border-slate-300 rounded bg-white font-mono"
+            >
+              {SIGNIFICANCE_LEVELS.map(level => (
+                <option key={level} value={level}>α = {level}</option>
+              ))}
+            </select>
+          </div>
+
           {/* Zoom Controls */}
           <div className="flex items-center gap-2 bg-slate-100 p-2 rounded-lg">
             <ZoomOut className="w-4 h-4 text-slate-500" />
@@ -131,6 +471,32 @@ export const CorrelationMatrix: React.FC<CorrelationMatrixProps> = ({ matrix })
             <span className="text-xs text-slate-500 font-mono w-8 text-right">{cellSize}px</span>
           </div>
 
+          {/* Confidence Level */}
+          <label className="flex items-center gap-2 bg-slate-100 p-2 rounded-lg text-sm text-slate-600" title="Fisher z 轉換的信賴區間">
+            信賴區間
+            <select
+              value={confidenceLevel}
+              onChange={(e) => setConfidenceLevel(Number(e.target.value))}
+              className="px-1.5 py-0.5 text-xs border border-slate-300 rounded bg-white font-mono"
+            >
+              {CONFIDENCE_LEVELS.map(level => (
+                <option key={level} value={level}>{Math.round(level * 100)}%</option>
+              ))}
+            </select>
+          </label>
+
+          {/* Ranked Pair List */}
+          <button
+            onClick={() => setShowPairTable(prev => !prev)}
+            className={`flex items-center gap-2 px-3 py-2 text-sm font-medium rounded border transition-colors ${
+              showPairTable ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-300 text-slate-600 hover:bg-slate-50'
+            }`}
+            title="依係數強度列出所有變數配對，可篩選、搜尋與匯出"
+          >
+            <ListOrdered className="w-4 h-4" />
+            配對排名
+          </button>
+
           {/* Export Buttons */}
           <div className="flex gap-2">
             <button 
@@ -153,24 +519,101 @@ export const CorrelationMatrix: React.FC<CorrelationMatrixProps> = ({ matrix })
         </div>
       </div>
       
+      {/* Group Tabs */}
+      {groupBy && (
+        <div className="mb-3 flex items-center gap-3">
+          <div className="flex rounded-lg overflow-hidden border border-slate-300 flex-shrink-0">
+            {(['tabs', 'smallMultiples'] as const).map((view, i) => (
+              <button
+                key={view}
+                onClick={() => setGroupView(view)}
+                className={`px-2 py-1 text-xs font-medium transition-colors ${i > 0 ? 'border-l border-slate-300' : ''} ${
+                  groupView === view ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'
+                }`}
+              >
+                {view === 'tabs' ? '分頁' : '小圖並列'}
+              </button>
+            ))}
+          </div>
+          {groupView === 'tabs' && (
+            <div className="flex gap-1 overflow-x-auto">
+              {groupPanels.map(panel => (
+                <button
+                  key={panel.key}
+                  onClick={() => setActiveGroup(panel.key)}
+                  className={`flex items-center gap-1 px-3 py-1 text-xs rounded-full border whitespace-nowrap transition-colors ${
+                    activeGroup === panel.key
+                      ? 'bg-slate-800 border-slate-800 text-white'
+                      : panel.isSmall
+                        ? 'bg-amber-50 border-amber-200 text-amber-800 hover:border-amber-300'
+                        : 'bg-white border-slate-200 text-slate-600 hover:border-slate-300'
+                  }`}
+                  title={panel.isSmall ? `資料筆數少於 ${groupBy.minGroupSize}，係數可能不穩定` : undefined}
+                >
+                  {panel.isSmall && <AlertTriangle className="w-3 h-3" />}
+                  {panel.name}
+                  <span className="font-mono opacity-70">n={panel.size}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          {groupView === 'smallMultiples' && (
+            <span className="text-xs text-slate-500">所有組別使用相同的色階與變數順序，點擊小圖查看完整矩陣</span>
+          )}
+        </div>
+      )}
+
+      {groupBy && groupView === 'smallMultiples' ? (
+        <div className="flex-1 overflow-auto border border-slate-200 rounded-lg bg-slate-50">
+          <GroupSmallMultiples
+            panels={groupPanels}
+            rowOrder={rowOrder}
+            columnOrder={columnOrder}
+            getColor={getColor}
+            undefinedColor={UNDEFINED_CELL_COLOR}
+            onSelect={(key) => {
+              setActiveGroup(key);
+              setGroupView('tabs');
+            }}
+          />
+        </div>
+      ) : (
+      <div className="flex-1 min-h-0 flex gap-4">
       {/* Main Scrollable Area */}
-      <div className="flex-1 overflow-auto border border-slate-200 rounded-lg relative bg-slate-50">
+      <div ref={heatmapRef} className="flex-1 overflow-auto border border-slate-200 rounded-lg relative bg-slate-50">
         <div 
           className="grid"
           style={{
             // First col is variable width (auto), others are fixed by cellSize
-            gridTemplateColumns: `auto repeat(${variables.length}, ${cellSize}px)`,
+            // A clustered ordering adds a dendrogram row on top and a dendrogram column on the left
+            gridTemplateColumns: `${hasDendrograms ? `${DENDROGRAM_DEPTH}px ` : ''}auto repeat(${columnVariables.length}, ${cellSize}px)`,
           }}
         >
+          {/* --- Dendrograms --- */}
+          {rowDendrogram && columnDendrogram && (
+            <>
+              <div className="bg-white" style={{ gridRow: 1, gridColumn: '1 / span 2' }} />
+              <div className="bg-white border-b border-slate-100" style={{ gridRow: 1, gridColumn: `3 / span ${columnVariables.length}` }}>
+                <Dendrogram root={columnDendrogram} orientation="top" cellSize={cellSize} depth={DENDROGRAM_DEPTH} />
+              </div>
+              <div className="bg-white border-r border-slate-100" style={{ gridRow: `3 / span ${rowVariables.length}`, gridColumn: 1 }}>
+                <Dendrogram root={rowDendrogram} orientation="left" cellSize={cellSize} depth={DENDROGRAM_DEPTH} />
+              </div>
+            </>
+          )}
+
           {/* --- Header Row --- */}
           
           {/* Top-Left Corner (Sticky) */}
-          <div className="sticky top-0 left-0 z-30 bg-white border-b border-r border-slate-200 p-2 flex items-center justify-center shadow-sm">
+          <div
+            className="sticky top-0 left-0 z-30 bg-white border-b border-r border-slate-200 p-2 flex items-center justify-center shadow-sm"
+            style={hasDendrograms ? { gridColumn: 'span 2' } : undefined}
+          >
              <span className="text-xs font-bold text-slate-400 italic whitespace-nowrap">變數</span>
           </div>
 
           {/* Column Headers (Sticky Top) */}
-          {variables.map((v, i) => (
+          {columnVariables.map((v, i) => (
             <div 
               key={`h-${i}`} 
               className="sticky top-0 z-20 bg-white border-b border-r border-slate-100 p-1 flex items-center justify-center text-xs font-semibold text-slate-600 text-center break-words leading-tight shadow-sm"
@@ -181,7 +624,7 @@ export const CorrelationMatrix: React.FC<CorrelationMatrixProps> = ({ matrix })
           ))}
 
           {/* --- Data Rows --- */}
-          {variables.map((rowVar, rIdx) => (
+          {rowVariables.map((rowVar, rIdx) => (
             <React.Fragment key={`row-${rIdx}`}>
               
               {/* Row Header (Sticky Left) */}
@@ -193,44 +636,131 @@ export const CorrelationMatrix: React.FC<CorrelationMatrixProps> = ({ matrix })
 
               {/* Data Cells */}
               {grid[rIdx].map((value, cIdx) => {
+                const colVar = columnVariables[cIdx];
+                const pairKey = getPairKey(rowVar, colVar);
                 const isHovered = hoverCell?.r === rIdx && hoverCell?.c === cIdx;
-                const isRelatedHover = hoverCell?.r === cIdx && hoverCell?.c === rIdx; 
-                const isSelf = rIdx === cIdx;
+                const isRelatedHover = !isHovered && pairKey === hoveredKey;
+                const isSelf = isSelfCell(rIdx, cIdx);
+                const pValue = adjustedPValues[rIdx][cIdx];
+                const stars = getSignificanceStars(pValue);
+                const isMuted = !isSelf && hideNonSignificant && isNonSignificant(pValue);
+                const ci = isSelf ? null : getCorrelationResult(matrix, rIdx, cIdx, confidenceLevel).confidenceInterval;
+                const sampleSize = sampleSizes[rIdx][cIdx];
+                const isLowN = isLowSampleSize(rIdx, cIdx);
+                const isUndefined = !isSelf && value === null;
+                const undefinedReason = undefinedReasons[rIdx][cIdx];
+                const bestLag = lag && !isSelf ? lag.bestLags[rIdx][cIdx] : null;
+                const isPairSelected = pairKey === selectedKey;
                 
                 return (
                   <div
                     key={`cell-${rIdx}-${cIdx}`}
+                    data-cell={`${rIdx}-${cIdx}`}
                     onMouseEnter={() => setHoverCell({ r: rIdx, c: cIdx })}
                     onMouseLeave={() => setHoverCell(null)}
+                    onClick={() => !isSelf && data && setDrillDown({ rowVar, colVar })}
                     className={`
-                      relative flex items-center justify-center cursor-default border-b border-r border-slate-50
+                      relative flex items-center justify-center border-b border-r border-slate-50
+                      ${!isSelf && data ? 'cursor-pointer' : 'cursor-default'}
                       ${isHovered ? 'z-10 ring-2 ring-slate-800 shadow-lg' : ''}
                       ${isRelatedHover ? 'ring-2 ring-slate-300 opacity-90' : ''}
+                      ${isPairSelected && !isHovered ? 'z-10 ring-4 ring-yellow-400' : ''}
                     `}
                     style={{ 
                       width: cellSize, 
                       height: cellSize,
-                      backgroundColor: isSelf ? '#f8fafc' : getColor(value) 
+                      backgroundColor: isSelf ? '#f8fafc' : value === null ? UNDEFINED_CELL_COLOR : isMuted ? '#f1f5f9' : getColor(value),
+                      backgroundImage: isLowN ? LOW_N_HATCH : undefined
                     }}
                   >
-                    {!isSelf && (
+                    {isUndefined && (
+                      <span className={`italic text-slate-400 select-none ${cellSize < 50 ? 'text-[10px]' : 'text-xs'}`}>
+                        {cellSize > 35 ? (cellDisplay === 'sampleSize' ? `N=${sampleSize}` : 'N/A') : ''}
+                      </span>
+                    )}
+                    {value !== null && !isSelf && (
                       <span 
                         className={`font-bold transition-opacity select-none ${cellSize < 50 ? 'text-[10px]' : 'text-sm'}`}
-                        style={{ color: getTextColor(value) }}
+                        style={{ color: isMuted ? '#cbd5e1' : getTextColor(value) }}
                       >
-                        {cellSize > 35 ? value.toFixed(2) : ''}
+                        {cellSize > 35 ? (cellDisplay === 'sampleSize' ? `N=${sampleSize}` : value.toFixed(2)) : ''}
+                        {cellSize > 35 && cellDisplay === 'coefficient' && stars && <sup className="ml-0.5">{stars}</sup>}
+                      </span>
+                    )}
+                    {bestLag !== null && value !== null && !isMuted && cellSize >= 60 && (
+                      <span className="absolute top-1 right-1.5 text-[10px] font-mono select-none" style={{ color: getTextColor(value) }}>
+                        lag {formatLag(bestLag)}
                       </span>
                     )}
+                    {/* Confidence interval bar: the track spans -1..+1 */}
+                    {ci && value !== null && !isMuted && cellDisplay === 'coefficient' && cellSize >= INTERVAL_BAR_MIN_CELL_SIZE && (
+                      <div className="absolute bottom-2 left-2 right-2 h-1.5 rounded-full bg-slate-900/10">
+                        <div
+                          className="absolute top-0 bottom-0 rounded-full bg-slate-800/60"
+                          style={{ left: `${(ci[0] + 1) * 50}%`, right: `${(1 - ci[1]) * 50}%` }}
+                        />
+                        <div
+                          className="absolute -top-0.5 -bottom-0.5 w-0.5 bg-slate-900"
+                          style={{ left: `${(value + 1) * 50}%` }}
+                        />
+                      </div>
+                    )}
                     {isSelf && <span className="text-slate-200 text-xs">-</span>}
                     
                     {/* Tooltip on hover */}
                     {isHovered && (
                       <div className="absolute bottom-full mb-2 left-1/2 transform -translate-x-1/2 bg-slate-900 text-white text-xs p-3 rounded shadow-xl whitespace-nowrap pointer-events-none z-50">
-                        <div className="font-semibold text-slate-300 mb-1 border-b border-slate-700 pb-1">相關性分析</div>
+                        <div className="font-semibold text-slate-300 mb-1 border-b border-slate-700 pb-1">
+                          相關性分析
+                          {!isSelf && data && <span className="ml-2 font-normal text-slate-500">{lag ? '點擊查看交叉相關圖' : '點擊查看散佈圖'}</span>}
+                        </div>
                         <div className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-1 text-left">
                            <span className="text-slate-400">變數 1:</span> <span>{rowVar}</span>
-                           <span className="text-slate-400">變數 2:</span> <span>{variables[cIdx]}</span>
-                           <span className="text-slate-400">係數 r:</span> <span className="font-mono text-yellow-400">{value.toFixed(4)}</span>
+                           <span className="text-slate-400">變數 2:</span> <span>{colVar}</span>
+                           <span className="text-slate-400">係數 {methodSymbol}:</span> <span className="font-mono text-yellow-400">{value !== null ? value.toFixed(4) : 'N/A'}</span>
+                           {bestLag !== null && (
+                             <>
+                               <span className="text-slate-400">最佳延遲:</span>
+                               <span>
+                                 <span className="font-mono">{formatLag(bestLag)}</span>
+                                 <span className="ml-1 text-slate-400">
+                                   {bestLag === 0 ? '（同期）' : bestLag > 0 ? `（${rowVar} 領先 ${bestLag} 列）` : `（${colVar} 領先 ${-bestLag} 列）`}
+                                 </span>
+                               </span>
+                             </>
+                           )}
+                           {isUndefined && undefinedReason && (
+                             <>
+                               <span className="text-slate-400">原因:</span>
+                               <span className="text-red-300">{UNDEFINED_REASON_LABELS[undefinedReason]}</span>
+                             </>
+                           )}
+                           <span className="text-slate-400">樣本數 N:</span>
+                           <span className={`font-mono ${isLowN ? 'text-red-400' : ''}`}>
+                             {sampleSize}{isLowN && `（低於最小 N ${minSampleSize}）`}
+                           </span>
+                           {!isSelf && (
+                             <>
+                               {adjustment !== 'none' && (
+                                 <>
+                                   <span className="text-slate-400">原始 p 值:</span>
+                                   <span className="font-mono">{formatPValue(pValues[rIdx][cIdx])}</span>
+                                 </>
+                               )}
+                               <span className="text-slate-400">{adjustment === 'none' ? 'p 值:' : '校正 p 值:'}</span>
+                               <span className="font-mono">
+                                 {formatPValue(pValue)}
+                                 {stars && <span className="ml-1 text-yellow-400">{stars}</span>}
+                               </span>
+                               {lag && (
+                                 <span className="col-span-2 text-slate-500">p 值已依 {lag.maxLag - lag.minLag + 1} 個延遲做 Bonferroni 校正</span>
+                               )}
+                               <span className="text-slate-400">{Math.round(confidenceLevel * 100)}% CI:</span>
+                               <span className="font-mono">
+                                 {ci ? `[${ci[0].toFixed(3)}, ${ci[1].toFixed(3)}]` : 'N/A（樣本數不足）'}
+                               </span>
+                             </>
+                           )}
                         </div>
                       </div>
                     )}
@@ -242,6 +772,22 @@ export const CorrelationMatrix: React.FC<CorrelationMatrixProps> = ({ matrix })
         </div>
       </div>
 
+      {showPairTable && (
+        <div className="w-[420px] flex-shrink-0 border border-slate-200 rounded-lg overflow-hidden">
+          <PairTable
+            pairs={pairs}
+            methodSymbol={methodSymbol}
+            pValueLabel={pValueLabel}
+            confidenceLevel={confidenceLevel}
+            selected={selectedPair}
+            onSelect={handleSelectPair}
+            exportName={`correlation_pairs_${method}_${new Date().toISOString().slice(0,10)}`}
+          />
+        </div>
+      )}
+      </div>
+      )}
+
       {/* Legend Footer */}
       <div className="mt-4 flex flex-wrap items-center justify-between gap-4 border-t border-slate-100 pt-4">
         <div className="flex items-center gap-4 text-sm text-slate-600">
@@ -256,10 +802,41 @@ export const CorrelationMatrix: React.FC<CorrelationMatrixProps> = ({ matrix })
           <span className="font-medium">正相關 (+1)</span>
         </div>
         
+        <div className="flex items-center gap-2 text-xs text-slate-500">
+          <span className="inline-block w-4 h-4 border border-slate-300 rounded-sm" style={{ backgroundColor: UNDEFINED_CELL_COLOR }} />
+          N/A 無法計算
+          <span className="inline-block w-4 h-4 border border-slate-300 rounded-sm ml-2" style={{ backgroundImage: LOW_N_HATCH }} />
+          N &lt; {minSampleSize}
+        </div>
+
+        <div className="text-xs text-slate-500 font-mono">
+          * p &lt; 0.05　** p &lt; 0.01　*** p &lt; 0.001（雙尾檢定）
+        </div>
+
         <div className="text-xs text-slate-400">
           CSV 格式為純文字無法保存顏色，若需色彩請選擇 Excel
         </div>
       </div>
+
+      {/* Drill-down: cross-correlation curve in lag mode, scatter plot otherwise */}
+      {lag && lagDrillDownX && lagDrillDownY && (
+        <CrossCorrelationChart
+          xVariable={lagDrillDownY}
+          yVariable={lagDrillDownX}
+          minLag={lag.minLag}
+          maxLag={lag.maxLag}
+          method={method}
+          onClose={() => setDrillDown(null)}
+        />
+      )}
+      {!lag && drillDownX && drillDownY && (
+        <ScatterPlot
+          xVariable={drillDownX}
+          yVariable={drillDownY}
+          observationLabels={viewObservationLabels}
+          onClose={() => setDrillDown(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,150 @@
+import React, { useMemo, useState } from 'react';
+import * as d3 from 'd3';
+import { X } from 'lucide-react';
+import { CorrelationMethod, VariableData } from '../types';
+import { CORRELATION_METHOD_SYMBOLS, formatPValue, normalQuantile } from '../utils/statistics';
+import { crossCorrelation, findPeakLag } from '../utils/lagCorrelation';
+
+interface CrossCorrelationChartProps {
+  xVariable: VariableData; // Leads when the lag is positive
+  yVariable: VariableData;
+  minLag: number;
+  maxLag: number;
+  method: CorrelationMethod;
+  onClose: () => void;
+}
+
+const PLOT_WIDTH = 560;
+const PLOT_HEIGHT = 280;
+const MARGIN = { top: 12, right: 12, bottom: 40, left: 48 };
+
+// Approximate 95% band for a single lag under no correlation: ±z / sqrt(n)
+const BAND_Z = normalQuantile(0.975);
+
+export const CrossCorrelationChart: React.FC<CrossCorrelationChartProps> = ({ xVariable, yVariable, minLag, maxLag, method, onClose }) => {
+  const [hoverLag, setHoverLag] = useState<number | null>(null);
+  const symbol = CORRELATION_METHOD_SYMBOLS[method];
+
+  const points = useMemo(
+    () => crossCorrelation(xVariable.values, yVariable.values, minLag, maxLag, method),
+    [xVariable, yVariable, minLag, maxLag, method]
+  );
+  const peak = useMemo(() => findPeakLag(points), [points]);
+
+  const xScale = d3.scaleBand<number>().domain(points.map(p => p.lag)).range([0, PLOT_WIDTH]).padding(0.25);
+  const yScale = d3.scaleLinear().domain([-1, 1]).range([PLOT_HEIGHT, 0]);
+  const hovered = points.find(p => p.lag === hoverLag);
+
+  const width = MARGIN.left + PLOT_WIDTH + MARGIN.right;
+  const height = MARGIN.top + PLOT_HEIGHT + MARGIN.bottom;
+  const tickEvery = Math.ceil(points.length / 15);
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl p-6 max-w-[95vw] max-h-[95vh] overflow-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start justify-between gap-6 mb-4">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">交叉相關圖</h3>
+            <p className="text-sm text-slate-500">
+              <span className="font-medium text-slate-700">{xVariable.name}</span>
+              {' × '}
+              <span className="font-medium text-slate-700">{yVariable.name}</span>
+              <span className="ml-2">（延遲 k &gt; 0 表示 {xVariable.name} 領先 k 列）</span>
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-md text-slate-400 hover:text-slate-700 hover:bg-slate-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {peak && (
+          <div className="mb-3 flex flex-wrap gap-4 text-sm font-mono text-slate-600">
+            <span>峰值 {symbol} = {peak.coefficient!.toFixed(4)}</span>
+            <span>最佳延遲 = {peak.lag > 0 ? '+' : ''}{peak.lag}</span>
+            <span>N = {peak.n}</span>
+          </div>
+        )}
+
+        <div className="relative">
+          <svg width={width} height={height} className="block">
+            <g transform={`translate(${MARGIN.left},${MARGIN.top})`}>
+              <rect width={PLOT_WIDTH} height={PLOT_HEIGHT} fill="#f8fafc" stroke="#e2e8f0" />
+
+              {/* Axes */}
+              {yScale.ticks(8).map(t => (
+                <g key={`y-${t}`} transform={`translate(0,${yScale(t)})`}>
+                  <line x2={-5} stroke="#94a3b8" />
+                  <line x2={PLOT_WIDTH} stroke={t === 0 ? '#64748b' : '#e2e8f0'} />
+                  <text x={-8} dy="0.32em" textAnchor="end" className="fill-slate-500 text-[10px]">{t.toFixed(2)}</text>
+                </g>
+              ))}
+              {points.filter((_, i) => i % tickEvery === 0).map(p => (
+                <g key={`x-${p.lag}`} transform={`translate(${(xScale(p.lag) ?? 0) + xScale.bandwidth() / 2},${PLOT_HEIGHT})`}>
+                  <line y2={5} stroke="#94a3b8" />
+                  <text y={18} textAnchor="middle" className="fill-slate-500 text-[10px]">{p.lag}</text>
+                </g>
+              ))}
+              <text x={PLOT_WIDTH / 2} y={PLOT_HEIGHT + 34} textAnchor="middle" className="fill-slate-700 text-xs font-medium">
+                延遲 (列)
+              </text>
+              <text transform={`translate(${-36},${PLOT_HEIGHT / 2}) rotate(-90)`} textAnchor="middle" className="fill-slate-700 text-xs font-medium">
+                {symbol}
+              </text>
+
+              {/* Approximate significance band per lag */}
+              {points.filter(p => p.n > 0).map(p => {
+                const band = Math.min(1, BAND_Z / Math.sqrt(p.n));
+                const x = xScale(p.lag) ?? 0;
+                return (
+                  <g key={`band-${p.lag}`} stroke="#94a3b8" strokeDasharray="3,2">
+                    <line x1={x} x2={x + xScale.bandwidth()} y1={yScale(band)} y2={yScale(band)} />
+                    <line x1={x} x2={x + xScale.bandwidth()} y1={yScale(-band)} y2={yScale(-band)} />
+                  </g>
+                );
+              })}
+
+              {/* Bars */}
+              {points.map(p => p.coefficient !== null && (
+                <rect
+                  key={`bar-${p.lag}`}
+                  x={xScale(p.lag)}
+                  y={yScale(Math.max(0, p.coefficient))}
+                  width={xScale.bandwidth()}
+                  height={Math.abs(yScale(p.coefficient) - yScale(0))}
+                  fill={p.lag === peak?.lag ? '#dc2626' : '#2563eb'}
+                  fillOpacity={hoverLag === null || hoverLag === p.lag ? 0.85 : 0.45}
+                />
+              ))}
+
+              {/* Hover columns */}
+              {points.map(p => (
+                <rect
+                  key={`hover-${p.lag}`}
+                  x={xScale(p.lag)}
+                  width={xScale.bandwidth()}
+                  height={PLOT_HEIGHT}
+                  fill="transparent"
+                  onMouseEnter={() => setHoverLag(p.lag)}
+                  onMouseLeave={() => setHoverLag(null)}
+                />
+              ))}
+            </g>
+          </svg>
+
+          {hovered && (
+            <div
+              className="absolute bg-slate-900 text-white text-xs p-2 rounded shadow-xl whitespace-nowrap pointer-events-none"
+              style={{ left: MARGIN.left + (xScale(hovered.lag) ?? 0) + xScale.bandwidth() + 6, top: MARGIN.top + 8 }}
+            >
+              <div className="font-semibold mb-1">延遲 {hovered.lag > 0 ? '+' : ''}{hovered.lag}</div>
+              <div className="font-mono text-slate-300">{symbol} = {hovered.coefficient !== null ? hovered.coefficient.toFixed(4) : 'N/A'}</div>
+              <div className="font-mono text-slate-300">p = {formatPValue(hovered.pValue)}</div>
+              <div className="font-mono text-slate-300">N = {hovered.n}</div>
+            </div>
+          )}
+        </div>
+        <p className="mt-2 text-xs text-slate-400">虛線為 ±1.96/√N 的近似 95% 區間；單一延遲的 p 值未做多重比較校正</p>
+      </div>
+    </div>
+  );
+};
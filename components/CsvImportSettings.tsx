@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { FileText, ArrowRight } from 'lucide-react';
+import { CsvImportOptions } from '../types';
+import { CSV_DELIMITER_LABELS, CSV_ENCODING_LABELS, CSV_QUOTE_LABELS, readCsv } from '../utils/csv';
+
+interface CsvImportSettingsProps {
+  bytes: Uint8Array;
+  fileName: string;
+  detected: CsvImportOptions;
+  onConfirm: (rows: any[][]) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+const PREVIEW_COLS = 8;
+
+export const CsvImportSettings: React.FC<CsvImportSettingsProps> = ({ bytes, fileName, detected, onConfirm, onCancel }) => {
+  const [options, setOptions] = useState<CsvImportOptions>(detected);
+
+  // Preview only decodes the start of the file so it stays live on large files
+  const preview = useMemo(() => readCsv(bytes, options, PREVIEW_ROWS), [bytes, options]);
+  const previewCols = Math.max(0, ...preview.map(r => r.length));
+
+  const update = <K extends keyof CsvImportOptions>(key: K, value: CsvImportOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const renderSelect = <K extends keyof CsvImportOptions>(
+    label: string,
+    key: K,
+    labels: Record<CsvImportOptions[K], string>
+  ) => (
+    <label className="flex items-center gap-2 text-sm text-slate-600">
+      {label}：
+      <select
+        value={options[key]}
+        onChange={(e) => update(key, e.target.value as CsvImportOptions[K])}
+        className="px-2 py-1.5 text-sm border border-slate-300 rounded-lg bg-white focus:ring-blue-500 focus:border-blue-500"
+      >
+        {(Object.keys(labels) as CsvImportOptions[K][]).map(value => (
+          <option key={value} value={value}>
+            {labels[value]}{value === detected[key] ? '（偵測）' : ''}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="w-full max-w-4xl mx-auto bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <FileText className="w-5 h-5 text-blue-600" />
+            CSV 匯入設定
+          </h2>
+          <p className="text-slate-500 mt-1 text-sm">
+            已自動偵測「{fileName}」的編碼與分隔符號，如預覽不正確請手動調整。
+          </p>
+        </div>
+        <button
+          onClick={onCancel}
+          className="text-sm text-slate-500 hover:text-red-500 underline decoration-slate-300"
+        >
+          重新上傳
+        </button>
+      </div>
+
+      <div className="mb-4 flex flex-wrap items-center gap-x-6 gap-y-3 p-3 bg-slate-50 rounded-lg">
+        {renderSelect('文字編碼', 'encoding', CSV_ENCODING_LABELS)}
+        {renderSelect('分隔符號', 'delimiter', CSV_DELIMITER_LABELS)}
+        {renderSelect('引號', 'quote', CSV_QUOTE_LABELS)}
+      </div>
+
+      {/* Live Preview */}
+      <div className="overflow-auto border rounded-lg border-slate-200 max-h-[320px]">
+        <table className="w-full text-sm text-left text-slate-600">
+          <tbody>
+            {preview.map((row, rowIdx) => (
+              <tr key={rowIdx} className={`border-b border-slate-100 last:border-0 ${rowIdx === 0 ? 'bg-slate-50 font-medium' : ''}`}>
+                <td className="px-3 py-2 text-center font-mono text-xs text-slate-400 bg-slate-50 border-r border-slate-200 w-10">
+                  {rowIdx + 1}
+                </td>
+                {Array.from({ length: Math.min(previewCols, PREVIEW_COLS) }, (_, colIdx) => (
+                  <td
+                    key={colIdx}
+                    className="px-3 py-2 truncate max-w-[140px] border-r border-slate-100 last:border-0"
+                    title={String(row[colIdx] ?? '')}
+                  >
+                    {row[colIdx] !== null && row[colIdx] !== undefined
+                      ? String(row[colIdx])
+                      : <span className="text-slate-300 italic">-</span>
+                    }
+                  </td>
+                ))}
+                {previewCols > PREVIEW_COLS && (
+                  <td className="px-3 py-2 text-center text-slate-300">...</td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-6 flex items-center justify-between gap-4">
+        <span className="text-xs text-slate-500">
+          預覽前 {preview.length} 列，共偵測到 {previewCols} 欄
+        </span>
+        <button
+          onClick={() => onConfirm(readCsv(bytes, options))}
+          disabled={previewCols === 0}
+          className={`flex items-center gap-2 px-6 py-2.5 rounded-lg font-medium transition-all ${
+            previewCols > 0
+              ? 'bg-blue-600 text-white hover:bg-blue-700 shadow-md hover:shadow-lg'
+              : 'bg-slate-200 text-slate-400 cursor-not-allowed'
+          }`}
+        >
+          匯入資料
+          <ArrowRight className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,62 +1,104 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { ParsedData, VariableData } from '../types';
-import { ArrowRight, Settings2, Info, CheckSquare, Square, Loader2 } from 'lucide-react';
+import * as XLSX from 'xlsx';
+import { ParsedData, VariableData, AnalysisOptions, CorrelationMethod, MissingDataStrategy, DecimalSeparator, ColumnParseReport, HeaderLayout, DataOrientation, RowFilter } from '../types';
+import { CORRELATION_METHOD_LABELS } from '../utils/statistics';
+import { MISSING_DATA_STRATEGY_LABELS, applyMissingDataStrategy } from '../utils/missingData';
+import { DECIMAL_SEPARATOR_LABELS, DEFAULT_NUMBER_FORMAT, isNumericCell, parseNumericSeries } from '../utils/numberParsing';
+import { MAX_HEADER_ROWS, applyHeaderLayout } from '../utils/headerDetection';
+import { filterRowIndices, summarizeRowFilter } from '../utils/rowFilter';
+import { MAX_GROUPS, getGroupLabel, summarizeGroups } from '../utils/grouping';
+import { sortRowIndicesByOrder } from '../utils/lagCorrelation';
+import { MAX_ROLLING_WINDOWS, getOrderLabels, getWindowRanges } from '../utils/rollingCorrelation';
+import { DataGrid } from './DataGrid';
+import { RowFilterBuilder } from './RowFilterBuilder';
+import { ArrowRight, Settings2, Info, Loader2, SlidersHorizontal, AlertTriangle, Layers, Clock, Crosshair, Grid2x2 } from 'lucide-react';
 
 interface DataConfigProps {
   rawData: ParsedData;
-  onAnalyze: (variables: VariableData[]) => void;
+  onAnalyze: (variables: VariableData[], options: AnalysisOptions, observationLabels: string[]) => void;
   onReset: () => void;
   isAnalyzing?: boolean;
 }
 
-type DataOrientation = 'columns' | 'rows';
+type TimeSeriesMode = 'lag' | 'rolling';
+
+const TIME_SERIES_MODE_LABELS: Record<TimeSeriesMode, string> = {
+  lag: '時間延遲',
+  rolling: '滾動視窗',
+};
 
 export const DataConfig: React.FC<DataConfigProps> = ({ rawData, onAnalyze, onReset, isAnalyzing = false }) => {
   const rows = rawData.rows;
-  const [previewLimit] = useState(8);
-
-  // Detect if first row looks like a header (mostly strings, no numbers)
-  const detectHeaderRow = useMemo(() => {
-    if (rows.length === 0) return false;
-    const firstRow = rows[0];
-    let stringCount = 0;
-    let numberCount = 0;
-    
-    firstRow.forEach((cell: unknown) => {
-      if (cell === null || cell === undefined) return;
-      if (typeof cell === 'string' && isNaN(parseFloat(cell))) {
-        stringCount++;
-      } else if (typeof cell === 'number' || !isNaN(parseFloat(String(cell)))) {
-        numberCount++;
-      }
-    });
-    
-    return stringCount > 0 && stringCount >= numberCount;
-  }, [rows]);
 
-  const [hasHeaderRow, setHasHeaderRow] = useState(detectHeaderRow);
+  // Where the header sits: skipped preamble rows, header row count, skipped trailing rows
+  const [layout, setLayout] = useState<HeaderLayout>(rawData.layout);
+  const isSuggestedLayout =
+    layout.headerRowIndex === rawData.layout.headerRowIndex &&
+    layout.headerRowCount === rawData.layout.headerRowCount &&
+    layout.skipTrailingRows === rawData.layout.skipTrailingRows;
+
+  const updateLayout = (key: keyof HeaderLayout, value: number) => {
+    setLayout(prev => ({ ...prev, [key]: Math.max(0, Math.floor(value) || 0) }));
+  };
   
   // Data orientation: 'columns' = each column is a variable, 'rows' = each row is a variable
   const [orientation, setOrientation] = useState<DataOrientation>('columns');
 
   // Calculate headers based on settings
-  const { headers, dataRows } = useMemo(() => {
-    if (hasHeaderRow && rows.length > 0) {
-      return {
-        headers: rows[0].map((h: unknown) => String(h ?? '')),
-        dataRows: rows.slice(1)
-      };
-    }
-    const maxCols = Math.max(...rows.slice(0, 10).map(r => r.length), 0);
-    return {
-      headers: Array.from({ length: maxCols }, (_, i) => `欄位 ${String.fromCharCode(65 + i)}`),
-      dataRows: rows
-    };
-  }, [rows, hasHeaderRow]);
+  const { headers, dataRows } = useMemo(() => applyHeaderLayout(rows, layout), [rows, layout]);
+
+  // Correlation method used for the whole matrix
+  const [method, setMethod] = useState<CorrelationMethod>('pearson');
+
+  // How missing (non-numeric) cells are handled before the correlation step
+  const [missingData, setMissingData] = useState<MissingDataStrategy>('pairwise');
+
+  // Selected variables to control for (partial correlation); kept by name
+  const [controlVariables, setControlVariables] = useState<Set<string>>(new Set());
+
+  // How text cells are read as numbers ("1,234", "12,5%", "(3,000)" ...)
+  const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator>(DEFAULT_NUMBER_FORMAT.decimalSeparator);
+  const [percentAsFraction, setPercentAsFraction] = useState(DEFAULT_NUMBER_FORMAT.percentAsFraction);
 
   // Selected items (columns or rows depending on orientation)
   const [selectedItems, setSelectedItems] = useState<Set<number>>(new Set());
 
+  // Row filter (columns orientation only: in row orientation rows are the variables)
+  const [rowFilter, setRowFilter] = useState<RowFilter>({ combinator: 'and', conditions: [] });
+
+  // Time-series analysis (columns orientation only); -1 = off. Rows are
+  // sorted by the ordering column so that lags and windows count rows in time.
+  const [timeOrderColumn, setTimeOrderColumn] = useState(-1);
+  const [timeMode, setTimeMode] = useState<TimeSeriesMode>('lag');
+  const [minLag, setMinLag] = useState(-7);
+  const [maxLag, setMaxLag] = useState(7);
+  const [rollingWindow, setRollingWindow] = useState(30);
+  const [rollingStep, setRollingStep] = useState(1);
+  const timeOrdered = orientation === 'columns' && timeOrderColumn >= 0;
+  const lagEnabled = timeOrdered && timeMode === 'lag';
+  const rollingEnabled = timeOrdered && timeMode === 'rolling';
+
+  const passingRowIndices = useMemo(() => {
+    if (orientation !== 'columns') return dataRows.map((_, i) => i);
+    const indices = filterRowIndices(dataRows, rowFilter);
+    return timeOrderColumn >= 0 ? sortRowIndicesByOrder(dataRows, indices, timeOrderColumn) : indices;
+  }, [orientation, dataRows, rowFilter, timeOrderColumn]);
+  const filteredRows = useMemo(() => passingRowIndices.map(i => dataRows[i]), [passingRowIndices, dataRows]);
+
+  // Categorical column to split by (columns orientation only); -1 = no grouping
+  const [groupColumn, setGroupColumn] = useState(-1);
+  const [minGroupSize, setMinGroupSize] = useState(10);
+  const groupLabels = useMemo(
+    () => orientation === 'columns' && groupColumn >= 0 ? filteredRows.map(row => getGroupLabel(row[groupColumn])) : null,
+    [orientation, groupColumn, filteredRows]
+  );
+  const groupSummaries = useMemo(
+    () => groupLabels ? summarizeGroups(groupLabels, minGroupSize) : [],
+    [groupLabels, minGroupSize]
+  );
+  const smallGroupCount = groupSummaries.filter(g => g.isSmall).length;
+  const rollingWindowCount = rollingEnabled ? getWindowRanges(filteredRows.length, rollingWindow, rollingStep).length : 0;
+
   // Auto-select numeric columns/rows when orientation or data changes
   useEffect(() => {
     const newSelected = new Set<number>();
@@ -68,7 +110,7 @@ export const DataConfig: React.FC<DataConfigProps> = ({ rawData, onAnalyze, onRe
         const checkRows = dataRows.slice(0, 20);
         checkRows.forEach(row => {
           const cell = row[colIdx];
-          if (typeof cell === 'number' || (typeof cell === 'string' && !isNaN(parseFloat(cell)))) {
+          if (isNumericCell(cell)) {
             numericCount++;
           }
         });
@@ -81,7 +123,7 @@ export const DataConfig: React.FC<DataConfigProps> = ({ rawData, onAnalyze, onRe
       dataRows.forEach((row, rowIdx) => {
         let numericCount = 0;
         row.slice(1).forEach((cell: unknown) => {
-          if (typeof cell === 'number' || (typeof cell === 'string' && !isNaN(parseFloat(String(cell))))) {
+          if (isNumericCell(cell)) {
             numericCount++;
           }
         });
@@ -94,6 +136,24 @@ export const DataConfig: React.FC<DataConfigProps> = ({ rawData, onAnalyze, onRe
     setSelectedItems(newSelected);
   }, [orientation, headers, dataRows]);
 
+  // Column whose values name each observation (row) in 'columns' orientation; -1 uses row numbers
+  const suggestedLabelColumn = useMemo(() => {
+    const checkRows = dataRows.slice(0, 20);
+    const idx = headers.findIndex((_, colIdx) => {
+      const textCount = checkRows.filter(row => {
+        const cell = row[colIdx];
+        return typeof cell === 'string' && cell.trim() !== '' && !isNumericCell(cell);
+      }).length;
+      return checkRows.length > 0 && textCount > checkRows.length * 0.5;
+    });
+    return idx;
+  }, [headers, dataRows]);
+
+  const [labelColumn, setLabelColumn] = useState(suggestedLabelColumn);
+  useEffect(() => {
+    setLabelColumn(suggestedLabelColumn);
+  }, [suggestedLabelColumn]);
+
   const toggleItem = (idx: number) => {
     setSelectedItems(prev => {
       const next = new Set(prev);
@@ -118,38 +178,34 @@ export const DataConfig: React.FC<DataConfigProps> = ({ rawData, onAnalyze, onRe
     setSelectedItems(new Set());
   };
 
-  const getColLetter = (i: number) => String.fromCharCode(65 + i);
-
-  const handleAnalyze = () => {
-    if (selectedItems.size < 2) {
-      alert("請至少選擇 2 個項目進行分析");
-      return;
-    }
+  const getColLetter = (i: number) => XLSX.utils.encode_col(i);
 
-    const variables: VariableData[] = [];
+  // Build the variable series from the current selection, with a parse report per series
+  const { variables, parseReports } = useMemo(() => {
+    const built: VariableData[] = [];
+    const reports: ColumnParseReport[] = [];
+    const numberFormat = { decimalSeparator, percentAsFraction };
+    // Results, controls and sets are keyed by name, so a repeated header or
+    // label gets its column letter or row number appended
+    const countNames = (names: string[]) => names.reduce((counts, n) => counts.set(n, (counts.get(n) ?? 0) + 1), new Map<string, number>());
     
     if (orientation === 'columns') {
+      const columnName = (colIdx: number) => headers[colIdx] || `欄位 ${getColLetter(colIdx)}`;
+      const nameCounts = countNames(headers.map((_, i) => columnName(i)));
       // Each selected COLUMN becomes a variable
       // Values are from each row in that column
       selectedItems.forEach(colIdx => {
-        const values: number[] = [];
-        
-        dataRows.forEach(row => {
-          const cell = row[colIdx];
-          if (typeof cell === 'number') {
-            values.push(cell);
-          } else if (typeof cell === 'string') {
-            const parsed = parseFloat(cell);
-            values.push(isNaN(parsed) ? NaN : parsed);
-          } else {
-            values.push(NaN);
-          }
-        });
+        // The group-by column defines the groups; it is not a variable itself
+        if (colIdx === groupColumn || (timeOrdered && colIdx === timeOrderColumn)) return;
+        const baseName = columnName(colIdx);
+        const name = (nameCounts.get(baseName) ?? 0) > 1 ? `${baseName} (${getColLetter(colIdx)})` : baseName;
+        const { values, report } = parseNumericSeries(name, filteredRows.map(row => row[colIdx]), numberFormat);
+        reports.push(report);
 
         const validCount = values.filter(v => !isNaN(v)).length;
         if (validCount >= 2) {
-          variables.push({
-            name: headers[colIdx] || `欄位 ${getColLetter(colIdx)}`,
+          built.push({
+            name,
             values: values
           });
         }
@@ -157,29 +213,22 @@ export const DataConfig: React.FC<DataConfigProps> = ({ rawData, onAnalyze, onRe
     } else {
       // Each selected ROW becomes a variable
       // Values are from each column in that row (skip first column as it's the label)
+      const rowLabel = (rowIdx: number) => String(dataRows[rowIdx]?.[0] ?? `列 ${rowIdx + 1}`);
+      const labelCounts = countNames(dataRows.map((_, i) => rowLabel(i)));
       selectedItems.forEach(rowIdx => {
         const row = dataRows[rowIdx];
         if (!row) return;
         
-        const label = String(row[0] ?? `列 ${rowIdx + 1}`);
-        const values: number[] = [];
+        const baseLabel = rowLabel(rowIdx);
+        const label = (labelCounts.get(baseLabel) ?? 0) > 1 ? `${baseLabel} (列 ${rowIdx + 1})` : baseLabel;
         
         // Start from column 1 (skip label column)
-        for (let colIdx = 1; colIdx < row.length; colIdx++) {
-          const cell = row[colIdx];
-          if (typeof cell === 'number') {
-            values.push(cell);
-          } else if (typeof cell === 'string') {
-            const parsed = parseFloat(cell);
-            values.push(isNaN(parsed) ? NaN : parsed);
-          } else {
-            values.push(NaN);
-          }
-        }
+        const { values, report } = parseNumericSeries(label, row.slice(1), numberFormat);
+        reports.push(report);
 
         const validCount = values.filter(v => !isNaN(v)).length;
         if (validCount >= 2) {
-          variables.push({
+          built.push({
             name: label,
             values: values
           });
@@ -187,15 +236,175 @@ export const DataConfig: React.FC<DataConfigProps> = ({ rawData, onAnalyze, onRe
       });
     }
 
+    return { variables: built, parseReports: reports };
+  }, [orientation, selectedItems, dataRows, filteredRows, headers, groupColumn, timeOrdered, timeOrderColumn, decimalSeparator, percentAsFraction]);
+
+  // Only series where the parsing layer did something worth reporting
+  const notableReports = parseReports.filter(r => r.converted > 0 || r.rejected > 0);
+
+  // Name of each observation, shown when hovering points in the scatter plot
+  const observationLabels = useMemo(() => {
+    if (orientation === 'columns') {
+      return passingRowIndices.map(i => {
+        const row = dataRows[i];
+        const cell = labelColumn >= 0 ? row[labelColumn] : null;
+        return cell !== null && cell !== undefined && String(cell).trim() !== ''
+          ? String(cell)
+          : `第 ${i + 1} 列`;
+      });
+    }
+    // Row orientation: observations are the columns after the label column
+    return Array.from({ length: Math.max(0, headers.length - 1) }, (_, i) => headers[i + 1] || `欄位 ${getColLetter(i + 1)}`);
+  }, [orientation, dataRows, passingRowIndices, headers, labelColumn]);
+
+  // Live preview of how many rows the chosen missing-data strategy keeps
+  const missingDataSummary = useMemo(
+    () => variables.length >= 2 ? applyMissingDataStrategy(variables, missingData).summary : null,
+    [variables, missingData]
+  );
+
+  // Controls only count while their variable is still selected
+  const activeControls = useMemo(
+    () => variables.filter(v => controlVariables.has(v.name)).map(v => v.name),
+    [variables, controlVariables]
+  );
+  const analyzedCount = variables.length - activeControls.length;
+
+  // One-vs-all target mode; '' = full matrix. Only counts while the variable is still selected.
+  const [targetVariable, setTargetVariable] = useState('');
+  const activeTarget = variables.some(v => v.name === targetVariable) ? targetVariable : '';
+
+  // Set A × set B mode; members only count while their variable is still selected
+  const [crossSetsEnabled, setCrossSetsEnabled] = useState(false);
+  const [setA, setSetA] = useState<Set<string>>(new Set());
+  const [setB, setSetB] = useState<Set<string>>(new Set());
+  const activeSetA = useMemo(() => variables.filter(v => setA.has(v.name)).map(v => v.name), [variables, setA]);
+  const activeSetB = useMemo(() => variables.filter(v => setB.has(v.name)).map(v => v.name), [variables, setB]);
+
+  const toggleSetMember = (setter: React.Dispatch<React.SetStateAction<Set<string>>>, name: string) => {
+    setter(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  };
+
+  const toggleControlVariable = (name: string) => {
+    setControlVariables(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  };
+
+  const handleAnalyze = () => {
+    if (selectedItems.size < 2) {
+      alert("請至少選擇 2 個項目進行分析");
+      return;
+    }
+
     if (variables.length < 2) {
       alert("選擇的項目中，有效數值資料不足。請確認至少有 2 個項目包含數值。");
       return;
     }
 
-    onAnalyze(variables);
-  };
+    if (analyzedCount < 2) {
+      alert("扣除控制變數後，至少需要 2 個變數進行分析");
+      return;
+    }
+
+    if (orientation === 'columns' && filteredRows.length < 2) {
+      alert("符合篩選條件的資料不足 2 列，請調整篩選條件");
+      return;
+    }
 
-  const maxCols = Math.min(headers.length, 12);
+    if (groupSummaries.length > MAX_GROUPS) {
+      alert(`分組欄位共有 ${groupSummaries.length} 個類別，超過上限 ${MAX_GROUPS}，請選擇類別較少的欄位`);
+      return;
+    }
+
+    if (activeTarget) {
+      if (activeControls.length > 0 || groupLabels || timeOrdered) {
+        alert("目標變數模式不支援控制變數、分組比較與時間序列分析，請先取消這些設定");
+        return;
+      }
+    }
+
+    if (crossSetsEnabled) {
+      if (activeSetA.length === 0 || activeSetB.length === 0) {
+        alert("請為集合 A 與集合 B 各至少選擇 1 個變數");
+        return;
+      }
+      if (!activeSetA.some(a => activeSetB.some(b => a !== b))) {
+        alert("集合 A 與集合 B 之間至少需要一組不同的變數");
+        return;
+      }
+      if (activeControls.length > 0 || activeTarget || timeOrdered) {
+        alert("交叉矩陣模式不支援控制變數、目標變數與時間序列分析，請先取消這些設定");
+        return;
+      }
+    }
+
+    if (lagEnabled) {
+      if (minLag > maxLag) {
+        alert("延遲範圍的下限不可大於上限");
+        return;
+      }
+      if (Math.max(Math.abs(minLag), Math.abs(maxLag)) >= filteredRows.length - 2) {
+        alert("延遲範圍過大，平移後的配對資料不足，請縮小延遲範圍");
+        return;
+      }
+      if (activeControls.length > 0) {
+        alert("時間延遲相關不支援控制變數，請先取消控制變數");
+        return;
+      }
+    }
+
+    if (rollingEnabled) {
+      if (rollingWindow < 3 || rollingWindow > filteredRows.length) {
+        alert(`視窗大小需介於 3 到 ${filteredRows.length} 列之間`);
+        return;
+      }
+      if (rollingWindowCount > MAX_ROLLING_WINDOWS) {
+        alert(`共 ${rollingWindowCount} 個視窗，超過上限 ${MAX_ROLLING_WINDOWS}，請加大間隔`);
+        return;
+      }
+      if (activeControls.length > 0) {
+        alert("滾動相關不支援控制變數，請先取消控制變數");
+        return;
+      }
+    }
+
+    const timeOrderName = headers[timeOrderColumn] || `欄位 ${getColLetter(timeOrderColumn)}`;
+
+    onAnalyze(variables, {
+      method,
+      missingData,
+      controlVariables: activeControls,
+      rowFilter: orientation === 'columns'
+        ? summarizeRowFilter(rowFilter, headers, filteredRows.length, dataRows.length)
+        : undefined,
+      groupBy: groupLabels
+        ? { column: headers[groupColumn] || `欄位 ${getColLetter(groupColumn)}`, labels: groupLabels, minGroupSize }
+        : undefined,
+      lag: lagEnabled
+        ? { orderColumn: timeOrderName, minLag, maxLag }
+        : undefined,
+      rolling: rollingEnabled
+        ? { orderColumn: timeOrderName, window: rollingWindow, step: rollingStep, orderLabels: getOrderLabels(filteredRows.map(row => row[timeOrderColumn])) }
+        : undefined,
+      target: activeTarget || undefined,
+      variableSets: crossSetsEnabled ? { rows: activeSetA, columns: activeSetB } : undefined
+    }, observationLabels);
+  };
 
   return (
     <div className="space-y-6 animate-fade-in">
@@ -220,16 +429,56 @@ export const DataConfig: React.FC<DataConfigProps> = ({ rawData, onAnalyze, onRe
 
         {/* Settings Row */}
         <div className="mb-4 flex flex-wrap items-center gap-4 p-3 bg-slate-50 rounded-lg">
-          {/* Header Row Toggle */}
-          <label className="flex items-center gap-2 cursor-pointer">
-            <input
-              type="checkbox"
-              checked={hasHeaderRow}
-              onChange={(e) => setHasHeaderRow(e.target.checked)}
-              className="w-4 h-4 text-blue-600 rounded border-slate-300 focus:ring-blue-500"
-            />
-            <span className="text-sm text-slate-700">第一列是標題</span>
-          </label>
+          {/* Header Layout */}
+          <div className="flex items-center gap-3 text-sm text-slate-600">
+            <label className="flex items-center gap-1" title="報表標題、說明等出現在表格上方的列">
+              略過開頭
+              <input
+                type="number"
+                min={0}
+                max={Math.max(0, rows.length - 1)}
+                value={layout.headerRowIndex}
+                onChange={(e) => updateLayout('headerRowIndex', Number(e.target.value))}
+                className="w-14 px-2 py-1 text-xs border border-slate-300 rounded bg-white"
+              />
+              列
+            </label>
+            <label className="flex items-center gap-1" title="多列標題會合併成「上層 / 下層」的名稱">
+              標題
+              <select
+                value={layout.headerRowCount}
+                onChange={(e) => updateLayout('headerRowCount', Number(e.target.value))}
+                className="px-2 py-1 text-xs border border-slate-300 rounded bg-white"
+              >
+                <option value={0}>無</option>
+                {Array.from({ length: MAX_HEADER_ROWS }, (_, i) => (
+                  <option key={i + 1} value={i + 1}>{i + 1} 列</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1" title="合計、備註等出現在表格下方的列">
+              略過結尾
+              <input
+                type="number"
+                min={0}
+                max={Math.max(0, rows.length - 1)}
+                value={layout.skipTrailingRows}
+                onChange={(e) => updateLayout('skipTrailingRows', Number(e.target.value))}
+                className="w-14 px-2 py-1 text-xs border border-slate-300 rounded bg-white"
+              />
+              列
+            </label>
+            {isSuggestedLayout ? (
+              <span className="text-xs text-slate-400">（自動偵測）</span>
+            ) : (
+              <button
+                onClick={() => setLayout(rawData.layout)}
+                className="text-xs px-2 py-1 text-blue-600 hover:bg-blue-50 rounded"
+              >
+                還原自動偵測
+              </button>
+            )}
+          </div>
 
           <div className="w-px h-6 bg-slate-300" />
 
@@ -259,6 +508,26 @@ export const DataConfig: React.FC<DataConfigProps> = ({ rawData, onAnalyze, onRe
               </button>
             </div>
           </div>
+
+          {/* Label Column (names each observation) */}
+          {orientation === 'columns' && (
+            <>
+              <div className="w-px h-6 bg-slate-300" />
+              <label className="flex items-center gap-2 text-sm text-slate-600" title="散佈圖中滑過資料點時顯示的名稱">
+                標籤欄：
+                <select
+                  value={labelColumn}
+                  onChange={(e) => setLabelColumn(Number(e.target.value))}
+                  className="px-2 py-1 text-xs border border-slate-300 rounded bg-white max-w-[160px]"
+                >
+                  <option value={-1}>（使用列號）</option>
+                  {headers.map((h, i) => (
+                    <option key={i} value={i}>{getColLetter(i)} · {h || '-'}</option>
+                  ))}
+                </select>
+              </label>
+            </>
+          )}
         </div>
 
         {/* Quick Actions */}
@@ -274,115 +543,380 @@ export const DataConfig: React.FC<DataConfigProps> = ({ rawData, onAnalyze, onRe
           </span>
         </div>
 
-        {/* Data Preview Table */}
-        <div className="overflow-auto border rounded-lg border-slate-200 max-h-[400px]" style={{ scrollbarWidth: 'auto', scrollbarColor: '#cbd5e1 #f1f5f9' }}>
-          <table className="w-full text-sm text-left text-slate-600">
-            <thead className="text-xs text-slate-700 bg-slate-50 border-b border-slate-200 sticky top-0 z-20">
-              <tr>
-                {/* Row selector column (only for row orientation) */}
-                {orientation === 'rows' && (
-                  <th className="px-2 py-3 w-8 text-center bg-slate-50 sticky left-0 z-10">
-                    <span className="text-slate-400">選</span>
-                  </th>
-                )}
-                <th className="px-3 py-3 w-10 text-center font-mono text-slate-400 bg-slate-50 sticky left-0 z-10">#</th>
-                {headers.slice(0, maxCols).map((header, colIdx) => {
-                  const isSelected = orientation === 'columns' && selectedItems.has(colIdx);
-                  return (
-                    <th 
-                      key={colIdx} 
-                      onClick={() => orientation === 'columns' && toggleItem(colIdx)}
-                      className={`
-                        px-3 py-2 transition-colors border-l border-slate-200 select-none min-w-[80px]
-                        ${orientation === 'columns' ? 'cursor-pointer' : ''}
-                        ${isSelected ? 'bg-blue-50 text-blue-700' : orientation === 'columns' ? 'hover:bg-slate-100 text-slate-500' : 'text-slate-500'}
-                      `}
-                    >
-                      <div className="flex items-center gap-1">
-                        {orientation === 'columns' && (
-                          isSelected ? (
-                            <CheckSquare className="w-3.5 h-3.5 text-blue-600 flex-shrink-0" />
-                          ) : (
-                            <Square className="w-3.5 h-3.5 text-slate-300 flex-shrink-0" />
-                          )
-                        )}
-                        <div className="flex flex-col">
-                          <span className="font-bold text-[10px] text-slate-400">{getColLetter(colIdx)}</span>
-                          <span className="text-xs truncate max-w-[70px]" title={header}>
-                            {header || '-'}
+        {/* Data Preview */}
+        <DataGrid
+          headers={headers}
+          rows={dataRows}
+          orientation={orientation}
+          selectedItems={selectedItems}
+          onToggle={toggleItem}
+        />
+
+        {/* Analysis Settings */}
+        <div className="mt-6 p-4 border border-slate-200 rounded-lg space-y-3">
+          <h3 className="text-sm font-semibold text-slate-700 flex items-center gap-2">
+            <SlidersHorizontal className="w-4 h-4 text-blue-600" />
+            分析設定
+          </h3>
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+            {/* Correlation Method */}
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              計算方法：
+              <select
+                value={method}
+                onChange={(e) => setMethod(e.target.value as CorrelationMethod)}
+                disabled={isAnalyzing}
+                className="px-2 py-1.5 text-sm border border-slate-300 rounded-lg bg-white focus:ring-blue-500 focus:border-blue-500"
+                title="Pearson 衡量線性關係；Spearman 與 Kendall 以排名計算，較不受極端值影響"
+              >
+                {(Object.keys(CORRELATION_METHOD_LABELS) as CorrelationMethod[]).map(m => (
+                  <option key={m} value={m}>{CORRELATION_METHOD_LABELS[m]}</option>
+                ))}
+              </select>
+            </label>
+
+            {/* Missing Data Strategy */}
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              缺失值處理：
+              <select
+                value={missingData}
+                onChange={(e) => setMissingData(e.target.value as MissingDataStrategy)}
+                disabled={isAnalyzing}
+                className="px-2 py-1.5 text-sm border border-slate-300 rounded-lg bg-white focus:ring-blue-500 focus:border-blue-500"
+                title="成對刪除：每組配對各自使用完整的資料；完整列刪除：只保留所有變數皆有值的列；插補：以統計值或前一筆資料填補"
+              >
+                {(Object.keys(MISSING_DATA_STRATEGY_LABELS) as MissingDataStrategy[]).map(s => (
+                  <option key={s} value={s}>{MISSING_DATA_STRATEGY_LABELS[s]}</option>
+                ))}
+              </select>
+            </label>
+            {missingDataSummary && (
+              <span className="text-xs text-slate-500">
+                保留 <span className="font-semibold text-slate-700">{missingDataSummary.rowsKept}</span> / {missingDataSummary.totalRows} 筆資料
+                {missingDataSummary.imputedCells > 0 && `，插補 ${missingDataSummary.imputedCells} 格`}
+              </span>
+            )}
+          </div>
+
+          {/* Number Format */}
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              數字格式：
+              <select
+                value={decimalSeparator}
+                onChange={(e) => setDecimalSeparator(e.target.value as DecimalSeparator)}
+                disabled={isAnalyzing}
+                className="px-2 py-1.5 text-sm border border-slate-300 rounded-lg bg-white focus:ring-blue-500 focus:border-blue-500"
+                title="文字儲存格中的千分位與小數點符號；自動偵測會逐欄判斷"
+              >
+                {(Object.keys(DECIMAL_SEPARATOR_LABELS) as DecimalSeparator[]).map(s => (
+                  <option key={s} value={s}>{DECIMAL_SEPARATOR_LABELS[s]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={percentAsFraction}
+                onChange={(e) => setPercentAsFraction(e.target.checked)}
+                disabled={isAnalyzing}
+                className="w-4 h-4 text-blue-600 rounded border-slate-300 focus:ring-blue-500"
+              />
+              <span className="text-sm text-slate-700">百分比轉為小數 (12.5% → 0.125)</span>
+            </label>
+          </div>
+
+          {/* Parse Report */}
+          {notableReports.length > 0 && (
+            <div className="text-xs border border-slate-100 rounded-lg overflow-hidden">
+              <table className="w-full text-left text-slate-600">
+                <thead className="bg-slate-50 text-slate-500">
+                  <tr>
+                    <th className="px-3 py-1.5 font-medium">{orientation === 'columns' ? '欄位' : '列'}</th>
+                    <th className="px-3 py-1.5 font-medium text-right">原為數值</th>
+                    <th className="px-3 py-1.5 font-medium text-right">文字轉換</th>
+                    <th className="px-3 py-1.5 font-medium text-right">無法轉換</th>
+                    <th className="px-3 py-1.5 font-medium">無法轉換的值</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {notableReports.map((report, i) => (
+                    <tr key={i} className="border-t border-slate-100">
+                      <td className="px-3 py-1.5 truncate max-w-[160px]" title={report.name}>{report.name}</td>
+                      <td className="px-3 py-1.5 text-right font-mono">{report.numeric}</td>
+                      <td className="px-3 py-1.5 text-right font-mono text-blue-600">{report.converted}</td>
+                      <td className={`px-3 py-1.5 text-right font-mono ${report.rejected > 0 ? 'text-amber-600' : ''}`}>
+                        {report.rejected}
+                      </td>
+                      <td className="px-3 py-1.5 text-slate-400 truncate max-w-[200px]">
+                        {report.rejected > 0 && (
+                          <span className="flex items-center gap-1" title="這些儲存格會被視為缺失值">
+                            <AlertTriangle className="w-3 h-3 text-amber-500 flex-shrink-0" />
+                            {report.rejectedSamples.map(s => `「${s}」`).join('、')}
+                            {report.rejected > report.rejectedSamples.length && ' …'}
                           </span>
-                        </div>
-                      </div>
-                    </th>
-                  );
-                })}
-                {headers.length > maxCols && (
-                  <th className="px-3 py-2 text-center text-slate-400 text-xs">
-                    +{headers.length - maxCols}
-                  </th>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Row Filter */}
+          {orientation === 'columns' && (
+            <RowFilterBuilder
+              headers={headers}
+              rows={dataRows}
+              filter={rowFilter}
+              onChange={setRowFilter}
+              rowsPassed={filteredRows.length}
+              disabled={isAnalyzing}
+            />
+          )}
+
+          {/* Group By */}
+          {orientation === 'columns' && (
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-slate-600">
+              <label className="flex items-center gap-2" title="依類別欄位（如地區、會員等級）分別計算每一組的相關矩陣">
+                <Layers className="w-3.5 h-3.5 text-slate-400" />
+                分組比較：
+                <select
+                  value={groupColumn}
+                  onChange={(e) => setGroupColumn(Number(e.target.value))}
+                  disabled={isAnalyzing}
+                  className="px-2 py-1 text-xs border border-slate-300 rounded bg-white max-w-[180px]"
+                >
+                  <option value={-1}>（不分組）</option>
+                  {headers.map((h, i) => (
+                    <option key={i} value={i}>{getColLetter(i)} · {h || '-'}</option>
+                  ))}
+                </select>
+              </label>
+              {groupColumn >= 0 && (
+                <>
+                  <label className="flex items-center gap-1" title="資料筆數低於此值的組別仍會計算，但會被標示">
+                    最小組別筆數
+                    <input
+                      type="number"
+                      min={2}
+                      value={minGroupSize}
+                      onChange={(e) => setMinGroupSize(Math.max(2, Number(e.target.value) || 2))}
+                      disabled={isAnalyzing}
+                      className="w-14 px-2 py-1 text-xs border border-slate-300 rounded bg-white font-mono"
+                    />
+                  </label>
+                  <span className={`text-xs ${groupSummaries.length > MAX_GROUPS ? 'text-red-600' : 'text-slate-500'}`}>
+                    共 {groupSummaries.length} 組
+                    {groupSummaries.length > MAX_GROUPS
+                      ? `（上限 ${MAX_GROUPS} 組）`
+                      : smallGroupCount > 0 && (
+                        <span className="text-amber-600" title={groupSummaries.filter(g => g.isSmall).map(g => `${g.name} (${g.size})`).join('、')}>
+                          ，{smallGroupCount} 組少於 {minGroupSize} 筆
+                        </span>
+                      )}
+                  </span>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Time Series: lagged cross-correlation or rolling windows */}
+          {orientation === 'columns' && (
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-slate-600">
+              <label className="flex items-center gap-2" title="依日期或序號欄位排序後，計算時間延遲相關或滾動視窗相關">
+                <Clock className="w-3.5 h-3.5 text-slate-400" />
+                時間序列：
+                <select
+                  value={timeOrderColumn}
+                  onChange={(e) => setTimeOrderColumn(Number(e.target.value))}
+                  disabled={isAnalyzing}
+                  className="px-2 py-1 text-xs border border-slate-300 rounded bg-white max-w-[180px]"
+                >
+                  <option value={-1}>（不使用）</option>
+                  {headers.map((h, i) => (
+                    <option key={i} value={i}>{getColLetter(i)} · {h || '-'}</option>
+                  ))}
+                </select>
+              </label>
+              {timeOrdered && (
+                <div className="flex rounded-md overflow-hidden border border-slate-200 text-xs">
+                  {(Object.keys(TIME_SERIES_MODE_LABELS) as TimeSeriesMode[]).map((mode, i) => (
+                    <button
+                      key={mode}
+                      onClick={() => setTimeMode(mode)}
+                      disabled={isAnalyzing}
+                      className={`px-2.5 py-1 transition-colors ${i > 0 ? 'border-l border-slate-200' : ''} ${
+                        timeMode === mode ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'
+                      }`}
+                    >
+                      {TIME_SERIES_MODE_LABELS[mode]}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {lagEnabled && (
+                <>
+                  <label className="flex items-center gap-1" title="以列為單位；正延遲表示列變數領先欄變數">
+                    延遲範圍
+                    <input
+                      type="number"
+                      value={minLag}
+                      onChange={(e) => setMinLag(Math.trunc(Number(e.target.value) || 0))}
+                      disabled={isAnalyzing}
+                      className="w-14 px-2 py-1 text-xs border border-slate-300 rounded bg-white font-mono"
+                    />
+                    至
+                    <input
+                      type="number"
+                      value={maxLag}
+                      onChange={(e) => setMaxLag(Math.trunc(Number(e.target.value) || 0))}
+                      disabled={isAnalyzing}
+                      className="w-14 px-2 py-1 text-xs border border-slate-300 rounded bg-white font-mono"
+                    />
+                    列
+                  </label>
+                  <span className={`text-xs ${minLag > maxLag ? 'text-red-600' : 'text-slate-500'}`}>
+                    {minLag > maxLag
+                      ? '下限不可大於上限'
+                      : `資料將依「${headers[timeOrderColumn] || getColLetter(timeOrderColumn)}」排序，共 ${maxLag - minLag + 1} 個延遲`}
+                  </span>
+                </>
+              )}
+              {rollingEnabled && (
+                <>
+                  <label className="flex items-center gap-1" title="每個視窗包含的列數">
+                    視窗
+                    <input
+                      type="number"
+                      min={3}
+                      value={rollingWindow}
+                      onChange={(e) => setRollingWindow(Math.max(3, Math.trunc(Number(e.target.value) || 3)))}
+                      disabled={isAnalyzing}
+                      className="w-16 px-2 py-1 text-xs border border-slate-300 rounded bg-white font-mono"
+                    />
+                    列，間隔
+                    <input
+                      type="number"
+                      min={1}
+                      value={rollingStep}
+                      onChange={(e) => setRollingStep(Math.max(1, Math.trunc(Number(e.target.value) || 1)))}
+                      disabled={isAnalyzing}
+                      className="w-14 px-2 py-1 text-xs border border-slate-300 rounded bg-white font-mono"
+                    />
+                    列
+                  </label>
+                  <span className={`text-xs ${rollingWindowCount === 0 || rollingWindowCount > MAX_ROLLING_WINDOWS ? 'text-red-600' : 'text-slate-500'}`}>
+                    {rollingWindowCount === 0
+                      ? '視窗大於資料列數'
+                      : `資料將依「${headers[timeOrderColumn] || getColLetter(timeOrderColumn)}」排序，共 ${rollingWindowCount} 個視窗${rollingWindowCount > MAX_ROLLING_WINDOWS ? `（上限 ${MAX_ROLLING_WINDOWS}）` : ''}`}
+                  </span>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Target Variable (One-vs-All) */}
+          {variables.length > 2 && (
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-slate-600">
+              <label className="flex items-center gap-2" title="只計算目標變數與其他每個變數的相關，適合候選變數很多時">
+                <Crosshair className="w-3.5 h-3.5 text-slate-400" />
+                目標變數：
+                <select
+                  value={activeTarget}
+                  onChange={(e) => setTargetVariable(e.target.value)}
+                  disabled={isAnalyzing}
+                  className="px-2 py-1 text-xs border border-slate-300 rounded bg-white max-w-[180px]"
+                >
+                  <option value="">（完整矩陣）</option>
+                  {variables.map(v => (
+                    <option key={v.name} value={v.name}>{v.name}</option>
+                  ))}
+                </select>
+              </label>
+              {activeTarget && (
+                <span className="text-xs text-slate-500">
+                  將計算「{activeTarget}」與其餘 {variables.length - 1} 個變數的相關，依強度排序
+                </span>
+              )}
+            </div>
+          )}
+
+          {/* Set A × Set B (Rectangular Matrix) */}
+          {variables.length > 2 && (
+            <div className="space-y-2 text-sm text-slate-600">
+              <label className="flex items-center gap-2 cursor-pointer w-fit" title="只計算集合 A 的每個變數與集合 B 的每個變數之間的相關，例如行銷指標 × 成效指標">
+                <input
+                  type="checkbox"
+                  checked={crossSetsEnabled}
+                  onChange={(e) => setCrossSetsEnabled(e.target.checked)}
+                  disabled={isAnalyzing}
+                  className="w-4 h-4 text-blue-600 rounded border-slate-300 focus:ring-blue-500"
+                />
+                <Grid2x2 className="w-3.5 h-3.5 text-slate-400" />
+                A × B 交叉矩陣
+                {crossSetsEnabled && (
+                  <span className="text-xs text-slate-500">
+                    {activeSetA.length} × {activeSetB.length}，同一變數可同時屬於兩個集合
+                  </span>
                 )}
-              </tr>
-            </thead>
-            <tbody>
-              {dataRows.slice(0, previewLimit).map((row, rowIdx) => {
-                const isRowSelected = orientation === 'rows' && selectedItems.has(rowIdx);
+              </label>
+              {crossSetsEnabled && ([
+                { label: '集合 A (列)：', members: setA, setter: setSetA, activeClass: 'bg-teal-100 border-teal-300 text-teal-800' },
+                { label: '集合 B (欄)：', members: setB, setter: setSetB, activeClass: 'bg-indigo-100 border-indigo-300 text-indigo-800' },
+              ]).map(({ label, members, setter, activeClass }) => (
+                <div key={label} className="flex flex-wrap items-start gap-2 pl-6">
+                  <span className="py-1">{label}</span>
+                  {variables.map(v => (
+                    <button
+                      key={v.name}
+                      onClick={() => toggleSetMember(setter, v.name)}
+                      disabled={isAnalyzing}
+                      className={`px-2 py-1 text-xs rounded-full border transition-colors ${
+                        members.has(v.name)
+                          ? activeClass
+                          : 'bg-white border-slate-200 text-slate-500 hover:border-slate-300'
+                      }`}
+                    >
+                      {v.name}
+                    </button>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Control Variables (Partial Correlation) */}
+          {variables.length > 2 && (
+            <div className="flex flex-wrap items-start gap-2 text-sm text-slate-600">
+              <span className="py-1" title="被標記的變數不會出現在矩陣中，其餘變數的相關係數會排除它們的影響（偏相關）">
+                控制變數：
+              </span>
+              {variables.map(v => {
+                const isControl = controlVariables.has(v.name);
                 return (
-                  <tr 
-                    key={rowIdx} 
-                    onClick={() => orientation === 'rows' && toggleItem(rowIdx)}
-                    className={`
-                      border-b border-slate-100 last:border-0 
-                      ${orientation === 'rows' ? 'cursor-pointer' : ''}
-                      ${isRowSelected ? 'bg-blue-50/50' : 'hover:bg-slate-50'}
-                    `}
+                  <button
+                    key={v.name}
+                    onClick={() => toggleControlVariable(v.name)}
+                    disabled={isAnalyzing}
+                    className={`px-2 py-1 text-xs rounded-full border transition-colors ${
+                      isControl
+                        ? 'bg-amber-100 border-amber-300 text-amber-800'
+                        : 'bg-white border-slate-200 text-slate-500 hover:border-slate-300'
+                    }`}
                   >
-                    {orientation === 'rows' && (
-                      <td className="px-2 py-2 text-center bg-slate-50 sticky left-0 z-10">
-                        {isRowSelected ? (
-                          <CheckSquare className="w-4 h-4 text-blue-600 mx-auto" />
-                        ) : (
-                          <Square className="w-4 h-4 text-slate-300 mx-auto" />
-                        )}
-                      </td>
-                    )}
-                    <td className="px-3 py-2 text-center font-mono text-xs text-slate-400 bg-slate-50 border-r border-slate-200 sticky left-0 z-10">
-                      {rowIdx + 1}
-                    </td>
-                    {headers.slice(0, maxCols).map((_, colIdx) => {
-                      const cellValue = row[colIdx];
-                      const isColSelected = orientation === 'columns' && selectedItems.has(colIdx);
-                      
-                      return (
-                        <td 
-                          key={colIdx} 
-                          className={`
-                            px-3 py-2 truncate max-w-[100px] border-r border-slate-100 last:border-0
-                            ${isColSelected ? 'bg-blue-50/30' : ''}
-                          `}
-                          title={String(cellValue ?? '')}
-                        >
-                          {cellValue !== null && cellValue !== undefined 
-                            ? String(cellValue) 
-                            : <span className="text-slate-300 italic">-</span>
-                          }
-                        </td>
-                      );
-                    })}
-                    {headers.length > maxCols && (
-                      <td className="px-3 py-2 text-center text-slate-300">...</td>
-                    )}
-                  </tr>
+                    {v.name}
+                  </button>
                 );
               })}
-              {dataRows.length > previewLimit && (
-                <tr>
-                  <td colSpan={maxCols + (orientation === 'rows' ? 3 : 2)} className="px-4 py-2 text-center text-xs text-slate-400 bg-slate-50">
-                    ... 共 {dataRows.length} 筆，顯示前 {previewLimit} 筆 ...
-                  </td>
-                </tr>
+              {activeControls.length > 0 && (
+                <span className="py-1 text-xs text-amber-700">
+                  將計算控制 {activeControls.length} 個變數後的偏相關
+                </span>
               )}
-            </tbody>
-          </table>
+            </div>
+          )}
         </div>
 
         {/* Info & Action */}
@@ -391,7 +925,11 @@ export const DataConfig: React.FC<DataConfigProps> = ({ rawData, onAnalyze, onRe
             <Info className="w-4 h-4 text-blue-500" />
             <span>
               {selectedItems.size >= 2 
-                ? `將分析 ${selectedItems.size} 個變數的相關性` 
+                ? activeTarget
+                  ? `將分析 ${variables.length - 1} 個變數與「${activeTarget}」的相關性`
+                  : crossSetsEnabled
+                  ? `將分析集合 A ${activeSetA.length} 個 × 集合 B ${activeSetB.length} 個變數的相關性`
+                  : `將分析 ${activeControls.length > 0 ? analyzedCount : selectedItems.size} 個變數的相關性` 
                 : `請至少選擇 2 個${orientation === 'columns' ? '欄位' : '列'}`}
             </span>
           </div>
@@ -0,0 +1,182 @@
+import React, { useEffect, useRef, useState } from 'react';
+import * as XLSX from 'xlsx';
+import { CheckSquare, Square } from 'lucide-react';
+import { DataOrientation } from '../types';
+
+interface DataGridProps {
+  headers: string[];
+  rows: any[][];
+  orientation: DataOrientation; // Which axis is selectable
+  selectedItems: Set<number>;
+  onToggle: (idx: number) => void;
+}
+
+const ROW_HEIGHT = 32;
+const HEADER_HEIGHT = 44;
+const COLUMN_WIDTH = 120;
+const ROW_HEADER_WIDTH = 72;
+const GRID_HEIGHT = 400;
+// Extra rows/columns rendered beyond the viewport so fast scrolling doesn't flash blanks
+const OVERSCAN_ROWS = 6;
+const OVERSCAN_COLS = 2;
+
+/**
+ * Spreadsheet-style preview that only renders the cells in view, so every
+ * row and column of a large sheet can be scrolled and selected. Column and
+ * row headers live in their own panes and follow the body's scroll offset.
+ */
+export const DataGrid: React.FC<DataGridProps> = ({ headers, rows, orientation, selectedItems, onToggle }) => {
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+  const [viewport, setViewport] = useState({ width: 0, height: GRID_HEIGHT - HEADER_HEIGHT });
+
+  useEffect(() => {
+    const el = bodyRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => {
+      setViewport({ width: el.clientWidth, height: el.clientHeight });
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const rowCount = rows.length;
+  const colCount = headers.length;
+
+  const firstRow = Math.max(0, Math.floor(scroll.top / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(rowCount, Math.ceil((scroll.top + viewport.height) / ROW_HEIGHT) + OVERSCAN_ROWS);
+  const firstCol = Math.max(0, Math.floor(scroll.left / COLUMN_WIDTH) - OVERSCAN_COLS);
+  const lastCol = Math.min(colCount, Math.ceil((scroll.left + viewport.width) / COLUMN_WIDTH) + OVERSCAN_COLS);
+
+  const visibleRows = Array.from({ length: Math.max(0, lastRow - firstRow) }, (_, i) => firstRow + i);
+  const visibleCols = Array.from({ length: Math.max(0, lastCol - firstCol) }, (_, i) => firstCol + i);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollLeft } = e.currentTarget;
+    setScroll({ top: scrollTop, left: scrollLeft });
+  };
+
+  return (
+    <div>
+      <div
+        className="relative border rounded-lg border-slate-200 overflow-hidden text-sm text-slate-600 bg-white"
+        style={{ height: GRID_HEIGHT }}
+      >
+        {/* Corner */}
+        <div
+          className="absolute top-0 left-0 z-20 bg-slate-50 border-b border-r border-slate-200 flex items-center justify-center font-mono text-xs text-slate-400"
+          style={{ width: ROW_HEADER_WIDTH, height: HEADER_HEIGHT }}
+        >
+          #
+        </div>
+
+        {/* Column Headers */}
+        <div
+          className="absolute top-0 right-0 z-10 overflow-hidden bg-slate-50 border-b border-slate-200"
+          style={{ left: ROW_HEADER_WIDTH, height: HEADER_HEIGHT }}
+        >
+          {visibleCols.map(colIdx => {
+            const isSelected = orientation === 'columns' && selectedItems.has(colIdx);
+            return (
+              <div
+                key={colIdx}
+                onClick={() => orientation === 'columns' && onToggle(colIdx)}
+                className={`
+                  absolute top-0 px-3 py-1 border-l border-slate-200 select-none flex items-center gap-1 text-xs
+                  ${orientation === 'columns' ? 'cursor-pointer' : ''}
+                  ${isSelected ? 'bg-blue-50 text-blue-700' : orientation === 'columns' ? 'hover:bg-slate-100 text-slate-500' : 'text-slate-500'}
+                `}
+                style={{ left: colIdx * COLUMN_WIDTH - scroll.left, width: COLUMN_WIDTH, height: HEADER_HEIGHT }}
+              >
+                {orientation === 'columns' && (
+                  isSelected ? (
+                    <CheckSquare className="w-3.5 h-3.5 text-blue-600 flex-shrink-0" />
+                  ) : (
+                    <Square className="w-3.5 h-3.5 text-slate-300 flex-shrink-0" />
+                  )
+                )}
+                <div className="flex flex-col min-w-0">
+                  <span className="font-bold text-[10px] text-slate-400">{XLSX.utils.encode_col(colIdx)}</span>
+                  <span className="truncate" title={headers[colIdx]}>
+                    {headers[colIdx] || '-'}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Row Headers */}
+        <div
+          className="absolute left-0 bottom-0 z-10 overflow-hidden bg-slate-50 border-r border-slate-200"
+          style={{ top: HEADER_HEIGHT, width: ROW_HEADER_WIDTH }}
+        >
+          {visibleRows.map(rowIdx => {
+            const isSelected = orientation === 'rows' && selectedItems.has(rowIdx);
+            return (
+              <div
+                key={rowIdx}
+                onClick={() => orientation === 'rows' && onToggle(rowIdx)}
+                className={`
+                  absolute left-0 flex items-center gap-1.5 px-2 border-b border-slate-100 font-mono text-xs text-slate-400 select-none
+                  ${orientation === 'rows' ? 'cursor-pointer hover:bg-slate-100' : ''}
+                  ${isSelected ? 'bg-blue-50' : ''}
+                `}
+                style={{ top: rowIdx * ROW_HEIGHT - scroll.top, width: ROW_HEADER_WIDTH, height: ROW_HEIGHT }}
+              >
+                {orientation === 'rows' && (
+                  isSelected ? (
+                    <CheckSquare className="w-3.5 h-3.5 text-blue-600 flex-shrink-0" />
+                  ) : (
+                    <Square className="w-3.5 h-3.5 text-slate-300 flex-shrink-0" />
+                  )
+                )}
+                {rowIdx + 1}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Body */}
+        <div
+          ref={bodyRef}
+          onScroll={handleScroll}
+          className="absolute right-0 bottom-0 overflow-auto"
+          style={{ top: HEADER_HEIGHT, left: ROW_HEADER_WIDTH, scrollbarWidth: 'auto', scrollbarColor: '#cbd5e1 #f1f5f9' }}
+        >
+          <div className="relative" style={{ width: colCount * COLUMN_WIDTH, height: rowCount * ROW_HEIGHT }}>
+            {visibleRows.map(rowIdx => {
+              const row = rows[rowIdx];
+              const isRowSelected = orientation === 'rows' && selectedItems.has(rowIdx);
+              return visibleCols.map(colIdx => {
+                const cellValue = row[colIdx];
+                const isColSelected = orientation === 'columns' && selectedItems.has(colIdx);
+                return (
+                  <div
+                    key={`${rowIdx}-${colIdx}`}
+                    onClick={() => orientation === 'rows' && onToggle(rowIdx)}
+                    className={`
+                      absolute px-3 truncate border-b border-r border-slate-100 leading-8
+                      ${orientation === 'rows' ? 'cursor-pointer' : ''}
+                      ${isColSelected ? 'bg-blue-50/30' : isRowSelected ? 'bg-blue-50/50' : ''}
+                    `}
+                    style={{ top: rowIdx * ROW_HEIGHT, left: colIdx * COLUMN_WIDTH, width: COLUMN_WIDTH, height: ROW_HEIGHT }}
+                    title={String(cellValue ?? '')}
+                  >
+                    {cellValue !== null && cellValue !== undefined
+                      ? String(cellValue)
+                      : <span className="text-slate-300 italic">-</span>
+                    }
+                  </div>
+                );
+              });
+            })}
+          </div>
+        </div>
+      </div>
+      <div className="mt-1 text-right text-xs text-slate-400">
+        共 {rowCount.toLocaleString()} 列 × {colCount.toLocaleString()} 欄
+      </div>
+    </div>
+  );
+};
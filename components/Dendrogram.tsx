@@ -0,0 +1,61 @@
+import React, { useMemo } from 'react';
+import * as d3 from 'd3';
+import { ClusterNode } from '../utils/ordering';
+
+interface DendrogramProps {
+  root: ClusterNode;
+  orientation: 'top' | 'left';
+  cellSize: number; // Spacing between leaves, matches the heatmap cells
+  depth: number; // Pixel extent from the leaves to the root
+}
+
+export const Dendrogram: React.FC<DendrogramProps> = ({ root, orientation, cellSize, depth }) => {
+  const hierarchy = useMemo(() => d3.hierarchy<ClusterNode>(root, d => d.children), [root]);
+  const leafCount = hierarchy.leaves().length;
+  const length = leafCount * cellSize;
+
+  const paths = useMemo(() => {
+    // Leaves sit at the heatmap cell centers; merge heights map from 0 (leaves) to the root height
+    const heightScale = d3.scaleLinear()
+      .domain([0, hierarchy.data.height || 1])
+      .range([depth, 4]);
+
+    const position = new Map<d3.HierarchyNode<ClusterNode>, number>();
+    let leafIdx = 0;
+    hierarchy.eachAfter(node => {
+      if (!node.children) {
+        position.set(node, (leafIdx++ + 0.5) * cellSize);
+      } else {
+        const childPositions = node.children.map(c => position.get(c) ?? 0);
+        position.set(node, (Math.min(...childPositions) + Math.max(...childPositions)) / 2);
+      }
+    });
+
+    // Elbow links: from each parent's height across to each child, then down to the child's height
+    const toPoint = (along: number, height: number): [number, number] =>
+      orientation === 'top' ? [along, height] : [height, along];
+
+    return hierarchy.links().map(link => {
+      const path = d3.path();
+      const parentHeight = heightScale(link.source.data.height);
+      const childHeight = heightScale(link.target.data.height);
+      const parentPos = position.get(link.source) ?? 0;
+      const childPos = position.get(link.target) ?? 0;
+      path.moveTo(...toPoint(parentPos, parentHeight));
+      path.lineTo(...toPoint(childPos, parentHeight));
+      path.lineTo(...toPoint(childPos, childHeight));
+      return path.toString();
+    });
+  }, [hierarchy, cellSize, depth, orientation]);
+
+  const width = orientation === 'top' ? length : depth;
+  const height = orientation === 'top' ? depth : length;
+
+  return (
+    <svg width={width} height={height} className="block">
+      {paths.map((d, i) => (
+        <path key={i} d={d} fill="none" stroke="#64748b" strokeWidth={1.25} />
+      ))}
+    </svg>
+  );
+};
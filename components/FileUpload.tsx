@@ -1,7 +1,12 @@
 import React, { useCallback, useState } from 'react';
 import { Upload, FileSpreadsheet, Loader2, AlertCircle } from 'lucide-react';
 import * as XLSX from 'xlsx';
-import { ParsedData } from '../types';
+import { ParsedData, CsvImportOptions } from '../types';
+import { SheetPicker } from './SheetPicker';
+import { CsvImportSettings } from './CsvImportSettings';
+import { sheetToRows } from '../utils/workbook';
+import { detectCsvOptions } from '../utils/csv';
+import { detectHeaderLayout, applyHeaderLayout } from '../utils/headerDetection';
 
 interface FileUploadProps {
   onDataLoaded: (data: ParsedData, fileName: string) => void;
@@ -11,6 +16,22 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
   const [isDragging, setIsDragging] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [pendingWorkbook, setPendingWorkbook] = useState<{ workbook: XLSX.WorkBook; fileName: string } | null>(null);
+  const [pendingCsv, setPendingCsv] = useState<{ bytes: Uint8Array; fileName: string; detected: CsvImportOptions } | null>(null);
+
+  const loadRows = useCallback((rows: any[][], fileName: string) => {
+    if (rows.length === 0) {
+      setError("檔案為空");
+      return;
+    }
+    // Suggested layout; the config step lets the user adjust it
+    const layout = detectHeaderLayout(rows);
+    onDataLoaded({
+      headers: applyHeaderLayout(rows, layout).headers,
+      rows,
+      layout
+    }, fileName);
+  }, [onDataLoaded]);
 
   const processFile = useCallback((file: File) => {
     setError(null);
@@ -23,22 +44,23 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
         const data = e.target?.result;
         if (!data) throw new Error("讀取檔案失敗");
 
+        // Text files go through the import settings (encoding, delimiter) first
+        if (/\.(csv|tsv|txt)$/i.test(file.name)) {
+          const bytes = new Uint8Array(data as ArrayBuffer);
+          setPendingCsv({ bytes, fileName: file.name, detected: detectCsvOptions(bytes) });
+          return;
+        }
+
         const workbook = XLSX.read(data, { type: 'array' });
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-        
-        // Convert to array of arrays (header: 1 means generate array of arrays)
-        const jsonData = XLSX.utils.sheet_to_json<any[]>(worksheet, { header: 1, defval: null });
 
-        if (jsonData.length === 0) {
-          throw new Error("檔案為空");
+        // Multi-sheet workbooks go through the sheet picker first
+        if (workbook.SheetNames.length > 1) {
+          setPendingWorkbook({ workbook, fileName: file.name });
+          return;
         }
 
-        // Basic validation: Check if it looks like a table
-        onDataLoaded({
-          headers: [], // We defer header detection to the next step
-          rows: jsonData
-        }, file.name);
+        // Convert to array of arrays (header: 1 means generate array of arrays)
+        loadRows(sheetToRows(workbook, workbook.SheetNames[0]), file.name);
 
       } catch (err) {
         console.error(err);
@@ -54,7 +76,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
     };
 
     reader.readAsArrayBuffer(file);
-  }, [onDataLoaded]);
+  }, [loadRows]);
 
   const onDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -81,6 +103,37 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
     }
   };
 
+  if (pendingCsv) {
+    return (
+      <CsvImportSettings
+        bytes={pendingCsv.bytes}
+        fileName={pendingCsv.fileName}
+        detected={pendingCsv.detected}
+        onConfirm={(rows) => {
+          const { fileName } = pendingCsv;
+          setPendingCsv(null);
+          loadRows(rows, fileName);
+        }}
+        onCancel={() => setPendingCsv(null)}
+      />
+    );
+  }
+
+  if (pendingWorkbook) {
+    return (
+      <SheetPicker
+        workbook={pendingWorkbook.workbook}
+        fileName={pendingWorkbook.fileName}
+        onConfirm={(rows, sheetLabel) => {
+          const { fileName } = pendingWorkbook;
+          setPendingWorkbook(null);
+          loadRows(rows, `${fileName} (${sheetLabel})`);
+        }}
+        onCancel={() => setPendingWorkbook(null)}
+      />
+    );
+  }
+
   return (
     <div className="w-full max-w-2xl mx-auto">
       <div
@@ -97,7 +150,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
       >
         <input
           type="file"
-          accept=".xlsx,.xls,.csv"
+          accept=".xlsx,.xls,.csv,.tsv,.txt"
           onChange={handleInputChange}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
         />
@@ -116,7 +169,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
               {isLoading ? '正在處理檔案...' : '拖曳 Excel 或 CSV 檔案至此'}
             </h3>
             <p className="mt-2 text-slate-500 text-sm">
-              或點擊此處選擇檔案 (.xlsx, .xls, .csv)
+              或點擊此處選擇檔案 (.xlsx, .xls, .csv, .tsv)
             </p>
           </div>
         </div>
@@ -0,0 +1,70 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Matrix } from '../types';
+
+export interface GroupPanel {
+  key: number; // -1 = all observations, otherwise the group index
+  name: string;
+  size: number;
+  isSmall: boolean;
+  matrix: Matrix;
+}
+
+interface GroupSmallMultiplesProps {
+  panels: GroupPanel[];
+  rowOrder: number[]; // Shared variable order, so the same cell means the same pair in every panel
+  columnOrder: number[];
+  getColor: (value: number) => string;
+  undefinedColor: string;
+  onSelect: (key: number) => void;
+}
+
+const PANEL_SIZE = 220;
+const MIN_CELL_SIZE = 4;
+
+export const GroupSmallMultiples: React.FC<GroupSmallMultiplesProps> = ({ panels, rowOrder, columnOrder, getColor, undefinedColor, onSelect }) => {
+  const cellSize = Math.max(MIN_CELL_SIZE, Math.floor(PANEL_SIZE / Math.max(1, rowOrder.length, columnOrder.length)));
+  const width = cellSize * columnOrder.length;
+  const height = cellSize * rowOrder.length;
+
+  return (
+    <div className="grid gap-4 p-4" style={{ gridTemplateColumns: `repeat(auto-fill, minmax(${width + 24}px, 1fr))` }}>
+      {panels.map(panel => (
+        <button
+          key={panel.key}
+          onClick={() => onSelect(panel.key)}
+          className={`text-left bg-white p-3 rounded-lg border transition-colors hover:border-blue-400 ${
+            panel.isSmall ? 'border-amber-300' : 'border-slate-200'
+          }`}
+          title="點擊查看完整矩陣"
+        >
+          <div className="flex items-center justify-between gap-2 mb-2 text-xs">
+            <span className="font-semibold text-slate-700 truncate" title={panel.name}>{panel.name}</span>
+            <span className={`flex items-center gap-1 font-mono whitespace-nowrap ${panel.isSmall ? 'text-amber-600' : 'text-slate-400'}`}>
+              {panel.isSmall && <AlertTriangle className="w-3 h-3" />}
+              n={panel.size}
+            </span>
+          </div>
+          <svg width={width} height={height}>
+            {rowOrder.map((i, r) => columnOrder.map((j, c) => {
+              const rowVar = panel.matrix.rowVariables[i];
+              const colVar = panel.matrix.columnVariables[j];
+              const value = panel.matrix.grid[i][j];
+              const isSelf = rowVar === colVar;
+              const fill = isSelf ? '#f8fafc' : value === null ? undefinedColor : getColor(value);
+              return (
+                <rect key={`${r}-${c}`} x={c * cellSize} y={r * cellSize} width={cellSize} height={cellSize} fill={fill}>
+                  {!isSelf && (
+                    <title>
+                      {`${rowVar} × ${colVar}: ${value !== null ? value.toFixed(2) : 'N/A'} (N=${panel.matrix.sampleSizes[i][j]})`}
+                    </title>
+                  )}
+                </rect>
+              );
+            }))}
+          </svg>
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,320 @@
+import React, { useMemo, useState } from 'react';
+import * as d3 from 'd3';
+import { ArrowDown, ArrowUp, EyeOff, GitCompare } from 'lucide-react';
+import { CorrelationDifference, PValueAdjustment } from '../types';
+import { CORRELATION_METHOD_LABELS, formatPValue, getPairKey, getSignificanceStars } from '../utils/statistics';
+import { P_VALUE_ADJUSTMENT_LABELS, adjustMatrixPValues } from '../utils/multipleComparisons';
+import { ComparisonSource, compareMatrices, sourcesOverlap } from '../utils/comparison';
+
+interface MatrixComparisonProps {
+  sources: ComparisonSource[];
+}
+
+type SortKey = 'pair' | 'r1' | 'r2' | 'difference' | 'pValue';
+
+const SIGNIFICANCE_LEVELS = [0.05, 0.01, 0.001];
+const CELL_SIZE = 56;
+const UNDEFINED_CELL_COLOR = '#e2e8f0';
+
+// Difference scale: purple when the first matrix is lower, green when higher; clamped at ±1
+const differenceColor = d3.scaleLinear<string>()
+  .domain([-1, -0.5, 0, 0.5, 1])
+  .range(['#7c3aed', '#c4b5fd', '#ffffff', '#86efac', '#16a34a'])
+  .clamp(true);
+
+const formatR = (r: number | null) => r !== null ? r.toFixed(3) : 'N/A';
+
+export const MatrixComparison: React.FC<MatrixComparisonProps> = ({ sources }) => {
+  const [keyA, setKeyA] = useState(sources[0]?.key ?? '');
+  const [keyB, setKeyB] = useState(
+    () => sources.find(s => s !== sources[0] && !sourcesOverlap(s, sources[0]))?.key ?? sources[0]?.key ?? ''
+  );
+  const [adjustment, setAdjustment] = useState<PValueAdjustment>('holm');
+  const [alpha, setAlpha] = useState(0.05);
+  const [hideNonSignificant, setHideNonSignificant] = useState(false);
+  const [sortKey, setSortKey] = useState<SortKey>('difference');
+  const [sortDescending, setSortDescending] = useState(true);
+  const [hoverCell, setHoverCell] = useState<{ r: number, c: number } | null>(null);
+
+  const sourceA = sources.find(s => s.key === keyA);
+  const sourceB = sources.find(s => s.key === keyB);
+
+  // Reachable only when the snapshot list changes under the current choices
+  const overlapping = !!sourceA && !!sourceB && sourcesOverlap(sourceA, sourceB);
+  const comparison = useMemo(
+    () => sourceA && sourceB && !overlapping ? compareMatrices(sourceA.matrix, sourceB.matrix) : null,
+    [sourceA, sourceB, overlapping]
+  );
+  const adjustedPValues = useMemo(
+    () => comparison ? adjustMatrixPValues(comparison.pValues, adjustment, comparison.variables) : [],
+    [comparison, adjustment]
+  );
+
+  // Pairs carry the adjusted p-value so the list agrees with the heatmap
+  const pairs = useMemo(() => {
+    if (!comparison) return [];
+    const index = new Map(comparison.variables.map((name, i) => [name, i]));
+    const withAdjusted: CorrelationDifference[] = comparison.pairs.map(pair => ({
+      ...pair,
+      pValue: adjustedPValues[index.get(pair.var1)!][index.get(pair.var2)!],
+    }));
+
+    const value = (pair: CorrelationDifference): number | string | null => {
+      switch (sortKey) {
+        case 'pair': return `${pair.var1} ${pair.var2}`;
+        case 'difference': return pair.difference !== null ? Math.abs(pair.difference) : null;
+        default: return pair[sortKey];
+      }
+    };
+    return withAdjusted
+      .filter(pair => !hideNonSignificant || (pair.pValue !== null && pair.pValue <= alpha))
+      .sort((a, b) => {
+        const va = value(a);
+        const vb = value(b);
+        // Missing values always sort last
+        if (va === null || vb === null) return va === null ? (vb === null ? 0 : 1) : -1;
+        const order = typeof va === 'string' ? va.localeCompare(vb as string) : va - (vb as number);
+        return sortDescending ? -order : order;
+      });
+  }, [comparison, adjustedPValues, sortKey, sortDescending, hideNonSignificant, alpha]);
+
+  // Pairs missing from either matrix are not listed, so look them up by name
+  const pairAt = (i: number, j: number) => {
+    if (!comparison) return undefined;
+    const key = getPairKey(comparison.variables[i], comparison.variables[j]);
+    return comparison.pairs.find(pair => getPairKey(pair.var1, pair.var2) === key);
+  };
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDescending(prev => !prev);
+    } else {
+      setSortKey(key);
+      setSortDescending(key !== 'pair');
+    }
+  };
+
+  const renderSortHeader = (key: SortKey, label: React.ReactNode, align: 'left' | 'right' = 'right') => (
+    <th
+      onClick={() => toggleSort(key)}
+      className={`px-3 py-2 font-medium cursor-pointer select-none hover:text-slate-800 ${align === 'left' ? 'text-left' : 'text-right'}`}
+    >
+      <span className="inline-flex items-center gap-1">
+        {label}
+        {sortKey === key && (sortDescending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+      </span>
+    </th>
+  );
+
+  // A matrix cannot be compared with itself or its own groups, so those choices are disabled
+  const renderSourceSelect = (label: string, value: string, other: ComparisonSource | undefined, onChange: (key: string) => void) => (
+    <label className="flex items-center gap-2 text-sm text-slate-600">
+      {label}
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="px-2 py-1.5 text-sm border border-slate-300 rounded-lg bg-white max-w-[280px]"
+      >
+        {sources.map(s => (
+          <option key={s.key} value={s.key} disabled={!!other && sourcesOverlap(s, other)}>{s.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  if (sources.length < 2) {
+    return (
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 text-sm text-slate-500">
+        需要至少兩個矩陣才能比較。請先「儲存快照」，再以另一個檔案、篩選條件或分組重新分析；
+        使用分組比較時，各組別也可以直接互相比較。
+      </div>
+    );
+  }
+
+  const variables = comparison?.variables ?? [];
+  const methodsDiffer = sourceA && sourceB && sourceA.matrix.method !== sourceB.matrix.method;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <GitCompare className="w-5 h-5 text-blue-600" />
+          矩陣比較 (r₁ − r₂)
+        </h3>
+        <div className="flex flex-wrap items-center gap-2 bg-slate-100 p-2 rounded-lg text-sm text-slate-600">
+          <select
+            value={adjustment}
+            onChange={(e) => setAdjustment(e.target.value as PValueAdjustment)}
+            className="px-1.5 py-0.5 text-xs border border-slate-300 rounded bg-white"
+            title="多重比較校正：同時檢定大量配對時，控制偽陽性"
+          >
+            {(Object.keys(P_VALUE_ADJUSTMENT_LABELS) as PValueAdjustment[]).map(m => (
+              <option key={m} value={m}>{P_VALUE_ADJUSTMENT_LABELS[m]}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={hideNonSignificant}
+              onChange={(e) => setHideNonSignificant(e.target.checked)}
+              className="w-4 h-4 text-blue-600 rounded border-slate-300 focus:ring-blue-500"
+            />
+            <EyeOff className="w-4 h-4 text-slate-500" />
+            只看顯著變化
+          </label>
+          <select
+            value={alpha}
+            onChange={(e) => setAlpha(Number(e.target.value))}
+            className="px-1.5 py-0.5 text-xs border border-slate-300 rounded bg-white font-mono"
+          >
+            {SIGNIFICANCE_LEVELS.map(level => (
+              <option key={level} value={level}>α = {level}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+        {renderSourceSelect('矩陣 1：', keyA, sourceB, setKeyA)}
+        {renderSourceSelect('矩陣 2：', keyB, sourceA, setKeyB)}
+      </div>
+      {overlapping && (
+        <p className="text-sm text-slate-500">兩個矩陣的樣本重疊（同一個結果，或組別與所屬的整體矩陣），不適用獨立樣本檢定，請選擇其他矩陣</p>
+      )}
+      {methodsDiffer && (
+        <p className="text-xs text-amber-600">
+          兩個矩陣的計算方法不同（{CORRELATION_METHOD_LABELS[sourceA!.matrix.method]} vs {CORRELATION_METHOD_LABELS[sourceB!.matrix.method]}），差異可能來自方法本身
+        </p>
+      )}
+      {comparison && variables.length < 2 && (
+        <p className="text-sm text-slate-500">兩個矩陣的共同變數不足 2 個，無法比較</p>
+      )}
+
+      {comparison && variables.length >= 2 && (
+        <>
+          {/* Difference Heatmap */}
+          <div className="overflow-auto border border-slate-200 rounded-lg bg-slate-50 max-h-[60vh]">
+            <div className="grid" style={{ gridTemplateColumns: `auto repeat(${variables.length}, ${CELL_SIZE}px)` }}>
+              <div className="sticky top-0 left-0 z-30 bg-white border-b border-r border-slate-200" />
+              {variables.map((v, i) => (
+                <div
+                  key={`h-${i}`}
+                  className="sticky top-0 z-20 bg-white border-b border-r border-slate-100 p-1 flex items-center justify-center text-xs font-semibold text-slate-600 text-center leading-tight"
+                  style={{ height: 50 }}
+                >
+                  <div className="line-clamp-2" title={v}>{v}</div>
+                </div>
+              ))}
+              {variables.map((rowVar, rIdx) => (
+                <React.Fragment key={`row-${rIdx}`}>
+                  <div className="sticky left-0 z-20 bg-white border-b border-r border-slate-200 px-3 flex items-center justify-end text-xs font-semibold text-slate-600 whitespace-nowrap">
+                    {rowVar}
+                  </div>
+                  {comparison.grid[rIdx].map((diff, cIdx) => {
+                    const isSelf = rIdx === cIdx;
+                    const pValue = adjustedPValues[rIdx][cIdx];
+                    const stars = getSignificanceStars(pValue);
+                    const isMuted = !isSelf && hideNonSignificant && (pValue === null || pValue > alpha);
+                    const isHovered = hoverCell?.r === rIdx && hoverCell?.c === cIdx;
+                    const pair = isHovered ? pairAt(rIdx, cIdx) : undefined;
+                    return (
+                      <div
+                        key={`cell-${rIdx}-${cIdx}`}
+                        onMouseEnter={() => setHoverCell({ r: rIdx, c: cIdx })}
+                        onMouseLeave={() => setHoverCell(null)}
+                        className={`relative flex items-center justify-center border-b border-r border-slate-50 text-xs font-bold ${isHovered ? 'z-10 ring-2 ring-slate-800' : ''}`}
+                        style={{
+                          width: CELL_SIZE,
+                          height: CELL_SIZE,
+                          backgroundColor: isSelf ? '#f8fafc' : diff === null ? UNDEFINED_CELL_COLOR : isMuted ? '#f1f5f9' : differenceColor(diff),
+                          color: isMuted ? '#cbd5e1' : diff !== null && Math.abs(diff) > 0.5 ? 'white' : '#1e293b',
+                        }}
+                      >
+                        {isSelf ? <span className="text-slate-200">-</span> : diff === null ? (
+                          <span className="italic font-normal text-slate-400">N/A</span>
+                        ) : (
+                          <span>
+                            {diff > 0 ? '+' : ''}{diff.toFixed(2)}
+                            {stars && !isMuted && <sup className="ml-0.5">{stars}</sup>}
+                          </span>
+                        )}
+                        {isHovered && !isSelf && pair && (
+                          <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 bg-slate-900 text-white text-xs font-normal p-3 rounded shadow-xl whitespace-nowrap pointer-events-none z-50">
+                            <div className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-1 text-left">
+                              <span className="text-slate-400">配對:</span> <span>{rowVar} × {variables[cIdx]}</span>
+                              <span className="text-slate-400">r₁:</span> <span className="font-mono">{formatR(pair.r1)} (N={pair.n1})</span>
+                              <span className="text-slate-400">r₂:</span> <span className="font-mono">{formatR(pair.r2)} (N={pair.n2})</span>
+                              <span className="text-slate-400">差異:</span> <span className="font-mono text-yellow-400">{formatR(diff)}</span>
+                              <span className="text-slate-400">z:</span> <span className="font-mono">{pair.z !== null ? pair.z.toFixed(3) : 'N/A'}</span>
+                              <span className="text-slate-400">{adjustment === 'none' ? 'p 值:' : '校正 p 值:'}</span>
+                              <span className="font-mono">{formatPValue(pValue)}</span>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </React.Fragment>
+              ))}
+            </div>
+          </div>
+
+          {/* Legend */}
+          <div className="flex flex-wrap items-center gap-4 text-sm text-slate-600">
+            <span className="font-medium">矩陣 1 較低 (≤ −1)</span>
+            <div className="h-4 w-48 rounded-full overflow-hidden flex shadow-inner">
+              <div className="flex-1 bg-[#7c3aed]"></div>
+              <div className="flex-1 bg-[#c4b5fd]"></div>
+              <div className="flex-1 bg-white"></div>
+              <div className="flex-1 bg-[#86efac]"></div>
+              <div className="flex-1 bg-[#16a34a]"></div>
+            </div>
+            <span className="font-medium">矩陣 1 較高 (≥ +1)</span>
+            <span className="text-xs text-slate-500">顯著性：Fisher z 檢定（獨立樣本）</span>
+          </div>
+
+          {/* Biggest Changes */}
+          <div className="border border-slate-200 rounded-lg overflow-auto max-h-[400px]">
+            <table className="w-full text-sm text-slate-600">
+              <thead className="text-xs text-slate-500 bg-slate-50 sticky top-0">
+                <tr>
+                  {renderSortHeader('pair', '配對', 'left')}
+                  {renderSortHeader('r1', 'r₁')}
+                  {renderSortHeader('r2', 'r₂')}
+                  {renderSortHeader('difference', '|差異|')}
+                  <th className="px-3 py-2 font-medium text-right">z</th>
+                  {renderSortHeader('pValue', adjustment === 'none' ? 'p 值' : '校正 p 值')}
+                </tr>
+              </thead>
+              <tbody>
+                {pairs.map(pair => {
+                  const stars = getSignificanceStars(pair.pValue);
+                  return (
+                    <tr key={`${pair.var1}\u0000${pair.var2}`} className="border-t border-slate-100 hover:bg-slate-50">
+                      <td className="px-3 py-1.5">{pair.var1} × {pair.var2}</td>
+                      <td className="px-3 py-1.5 text-right font-mono">{formatR(pair.r1)}</td>
+                      <td className="px-3 py-1.5 text-right font-mono">{formatR(pair.r2)}</td>
+                      <td className="px-3 py-1.5 text-right font-mono font-semibold">
+                        {pair.difference !== null ? `${pair.difference > 0 ? '+' : ''}${pair.difference.toFixed(3)}` : 'N/A'}
+                      </td>
+                      <td className="px-3 py-1.5 text-right font-mono">{pair.z !== null ? pair.z.toFixed(2) : 'N/A'}</td>
+                      <td className="px-3 py-1.5 text-right font-mono">
+                        {formatPValue(pair.pValue)}
+                        {stars && <span className="ml-1 text-amber-600">{stars}</span>}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {pairs.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="px-3 py-4 text-center text-xs text-slate-400">沒有符合條件的配對</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
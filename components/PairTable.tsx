@@ -0,0 +1,249 @@
+import React, { useMemo, useState } from 'react';
+import * as XLSX from 'xlsx';
+import { ArrowDown, ArrowUp, FileSpreadsheet, FileText, Search } from 'lucide-react';
+import { CorrelationResult } from '../types';
+import { formatPValue, getSignificanceStars } from '../utils/statistics';
+import { downloadBlob } from '../utils/download';
+
+interface PairTableProps {
+  pairs: CorrelationResult[];
+  methodSymbol: string;
+  pValueLabel: string;
+  confidenceLevel: number;
+  selected: { var1: string; var2: string } | null;
+  onSelect: (pair: CorrelationResult) => void;
+  exportName: string; // File name without extension
+}
+
+type SortKey = 'pair' | 'coefficient' | 'absolute' | 'n' | 'pValue';
+
+type SignFilter = 'all' | 'positive' | 'negative';
+
+const SIGN_FILTER_LABELS: Record<SignFilter, string> = {
+  all: '全部',
+  positive: '正相關',
+  negative: '負相關',
+};
+
+// Rows rendered at a time; more are revealed on request
+const PAGE_SIZE = 200;
+
+export const PairTable: React.FC<PairTableProps> = ({ pairs, methodSymbol, pValueLabel, confidenceLevel, selected, onSelect, exportName }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('absolute');
+  const [sortDescending, setSortDescending] = useState(true);
+  const [minAbsolute, setMinAbsolute] = useState(0);
+  const [sign, setSign] = useState<SignFilter>('all');
+  const [search, setSearch] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const value = (pair: CorrelationResult): number | string | null => {
+      switch (sortKey) {
+        case 'pair': return `${pair.var1} ${pair.var2}`;
+        case 'absolute': return pair.coefficient !== null ? Math.abs(pair.coefficient) : null;
+        default: return pair[sortKey];
+      }
+    };
+    return pairs
+      .filter(pair => {
+        if (minAbsolute > 0 && (pair.coefficient === null || Math.abs(pair.coefficient) < minAbsolute)) return false;
+        if (sign === 'positive' && !(pair.coefficient !== null && pair.coefficient > 0)) return false;
+        if (sign === 'negative' && !(pair.coefficient !== null && pair.coefficient < 0)) return false;
+        return query === '' || pair.var1.toLowerCase().includes(query) || pair.var2.toLowerCase().includes(query);
+      })
+      .sort((a, b) => {
+        const va = value(a);
+        const vb = value(b);
+        // Missing values always sort last
+        if (va === null || vb === null) return va === null ? (vb === null ? 0 : 1) : -1;
+        const order = typeof va === 'string' ? va.localeCompare(vb as string) : va - (vb as number);
+        return sortDescending ? -order : order;
+      });
+  }, [pairs, sortKey, sortDescending, minAbsolute, sign, search]);
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDescending(prev => !prev);
+    } else {
+      setSortKey(key);
+      setSortDescending(key !== 'pair' && key !== 'pValue');
+    }
+  };
+
+  const handleExport = (type: 'csv' | 'xlsx') => {
+    const ciLabel = `${Math.round(confidenceLevel * 100)}% CI`;
+    const rows = [
+      ['變數 1', '變數 2', methodSymbol, `|${methodSymbol}|`, 'N', pValueLabel, `${ciLabel} 下限`, `${ciLabel} 上限`],
+      ...filtered.map(pair => [
+        pair.var1,
+        pair.var2,
+        pair.coefficient ?? 'NA',
+        pair.coefficient !== null ? Math.abs(pair.coefficient) : 'NA',
+        pair.n,
+        pair.pValue ?? '',
+        pair.confidenceInterval?.[0] ?? '',
+        pair.confidenceInterval?.[1] ?? '',
+      ]),
+    ];
+    const ws = XLSX.utils.aoa_to_sheet(rows);
+    if (type === 'csv') {
+      const blob = new Blob([XLSX.utils.sheet_to_csv(ws)], { type: 'text/csv;charset=utf-8;' });
+      downloadBlob(blob, `${exportName}.csv`);
+    } else {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, ws, 'Pairs');
+      XLSX.writeFile(workbook, `${exportName}.xlsx`);
+    }
+  };
+
+  const renderSortHeader = (key: SortKey, label: React.ReactNode, align: 'left' | 'right' = 'right') => (
+    <th
+      onClick={() => toggleSort(key)}
+      className={`px-2 py-2 font-medium cursor-pointer select-none hover:text-slate-800 ${align === 'left' ? 'text-left' : 'text-right'}`}
+    >
+      <span className="inline-flex items-center gap-1">
+        {label}
+        {sortKey === key && (sortDescending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+      </span>
+    </th>
+  );
+
+  return (
+    <div className="flex flex-col h-full min-h-0 text-sm text-slate-600">
+      {/* Filters */}
+      <div className="space-y-2 p-3 border-b border-slate-200 bg-white">
+        <label className="flex items-center gap-2 px-2 py-1 border border-slate-300 rounded bg-white">
+          <Search className="w-3.5 h-3.5 text-slate-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setVisibleCount(PAGE_SIZE);
+            }}
+            placeholder="搜尋變數名稱"
+            className="flex-1 text-xs outline-none"
+          />
+        </label>
+        <div className="flex flex-wrap items-center gap-3 text-xs">
+          <label className="flex items-center gap-1">
+            最小 |{methodSymbol}|
+            <input
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={minAbsolute}
+              onChange={(e) => {
+                setMinAbsolute(Math.min(1, Math.max(0, Number(e.target.value) || 0)));
+                setVisibleCount(PAGE_SIZE);
+              }}
+              className="w-16 px-1.5 py-0.5 border border-slate-300 rounded bg-white font-mono"
+            />
+          </label>
+          <div className="flex rounded overflow-hidden border border-slate-300">
+            {(Object.keys(SIGN_FILTER_LABELS) as SignFilter[]).map((option, i) => (
+              <button
+                key={option}
+                onClick={() => {
+                  setSign(option);
+                  setVisibleCount(PAGE_SIZE);
+                }}
+                className={`px-2 py-0.5 ${i > 0 ? 'border-l border-slate-300' : ''} ${
+                  sign === option ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'
+                }`}
+              >
+                {SIGN_FILTER_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center justify-between gap-2 text-xs">
+          <span className="text-slate-500">{filtered.length} / {pairs.length} 組配對</span>
+          <div className="flex gap-1">
+            <button
+              onClick={() => handleExport('xlsx')}
+              disabled={filtered.length === 0}
+              className="flex items-center gap-1 px-2 py-1 rounded border border-slate-200 hover:bg-slate-50 disabled:opacity-50"
+              title="匯出篩選後的配對 (Excel)"
+            >
+              <FileSpreadsheet className="w-3.5 h-3.5 text-green-600" />
+              Excel
+            </button>
+            <button
+              onClick={() => handleExport('csv')}
+              disabled={filtered.length === 0}
+              className="flex items-center gap-1 px-2 py-1 rounded border border-slate-200 hover:bg-slate-50 disabled:opacity-50"
+              title="匯出篩選後的配對 (CSV)"
+            >
+              <FileText className="w-3.5 h-3.5 text-slate-500" />
+              CSV
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Ranked Pairs */}
+      <div className="flex-1 overflow-auto">
+        <table className="w-full">
+          <thead className="text-xs text-slate-500 bg-slate-50 sticky top-0">
+            <tr>
+              {renderSortHeader('pair', '配對', 'left')}
+              {renderSortHeader('coefficient', methodSymbol)}
+              {renderSortHeader('absolute', `|${methodSymbol}|`)}
+              {renderSortHeader('n', 'N')}
+              {renderSortHeader('pValue', 'p')}
+            </tr>
+          </thead>
+          <tbody className="text-xs">
+            {filtered.slice(0, visibleCount).map(pair => {
+              const stars = getSignificanceStars(pair.pValue);
+              const isSelected = selected !== null && (
+                (selected.var1 === pair.var1 && selected.var2 === pair.var2) ||
+                (selected.var1 === pair.var2 && selected.var2 === pair.var1)
+              );
+              return (
+                <tr
+                  key={`${pair.var1}\u0000${pair.var2}`}
+                  onClick={() => onSelect(pair)}
+                  className={`border-t border-slate-100 cursor-pointer ${isSelected ? 'bg-yellow-50' : 'hover:bg-slate-50'}`}
+                >
+                  <td className="px-2 py-1.5">
+                    <div className="max-w-[200px] truncate" title={`${pair.var1} × ${pair.var2}`}>{pair.var1} × {pair.var2}</div>
+                  </td>
+                  <td className={`px-2 py-1.5 text-right font-mono ${
+                    pair.coefficient === null ? 'text-slate-400' : pair.coefficient > 0 ? 'text-red-600' : 'text-blue-600'
+                  }`}>
+                    {pair.coefficient !== null ? pair.coefficient.toFixed(3) : 'N/A'}
+                  </td>
+                  <td className="px-2 py-1.5 text-right font-mono font-semibold">
+                    {pair.coefficient !== null ? Math.abs(pair.coefficient).toFixed(3) : 'N/A'}
+                  </td>
+                  <td className="px-2 py-1.5 text-right font-mono">{pair.n}</td>
+                  <td className="px-2 py-1.5 text-right font-mono whitespace-nowrap">
+                    {formatPValue(pair.pValue)}
+                    {stars && <span className="ml-1 text-amber-600">{stars}</span>}
+                  </td>
+                </tr>
+              );
+            })}
+            {filtered.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-3 py-4 text-center text-slate-400">沒有符合條件的配對</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+        {filtered.length > visibleCount && (
+          <button
+            onClick={() => setVisibleCount(prev => prev + PAGE_SIZE)}
+            className="w-full py-2 text-xs text-blue-600 hover:bg-blue-50 border-t border-slate-100"
+          >
+            顯示更多（尚有 {filtered.length - visibleCount} 組）
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
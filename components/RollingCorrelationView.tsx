@@ -0,0 +1,261 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import * as d3 from 'd3';
+import { Pause, Play } from 'lucide-react';
+import { Matrix, RollingWindow } from '../types';
+import { CORRELATION_METHOD_LABELS, CORRELATION_METHOD_SYMBOLS } from '../utils/statistics';
+
+interface RollingCorrelationViewProps {
+  matrix: Matrix; // Overall matrix carrying `rolling`
+}
+
+const CHART_WIDTH = 680;
+const CHART_HEIGHT = 220;
+const MARGIN = { top: 12, right: 12, bottom: 36, left: 48 };
+const HEATMAP_SIZE = 360;
+const PLAY_INTERVAL_MS = 200;
+
+// Same scale as the main heatmap: -1 blue, 0 white, +1 red
+const color = d3.scaleLinear<string>()
+  .domain([-1, -0.5, 0, 0.5, 1])
+  .range(['#2563eb', '#93c5fd', '#ffffff', '#fca5a5', '#dc2626']);
+
+const UNDEFINED_COLOR = '#e2e8f0';
+
+const windowLabel = (w: RollingWindow) => `${w.startLabel} ~ ${w.endLabel}`;
+
+/**
+ * The pair whose coefficient moves the most across windows (largest
+ * standard deviation), a sensible first thing to look at.
+ */
+const findMostUnstablePair = (windows: RollingWindow[], size: number): [number, number] => {
+  let best: [number, number] = [0, Math.min(1, size - 1)];
+  let bestDeviation = -1;
+  for (let i = 0; i < size; i++) {
+    for (let j = i + 1; j < size; j++) {
+      const deviation = d3.deviation(windows, w => w.grid[i][j] ?? undefined) ?? -1;
+      if (deviation > bestDeviation) {
+        bestDeviation = deviation;
+        best = [i, j];
+      }
+    }
+  }
+  return best;
+};
+
+export const RollingCorrelationView: React.FC<RollingCorrelationViewProps> = ({ matrix }) => {
+  // Rolling windows are only computed for all-against-all matrices
+  const { rowVariables: variables, grid, method } = matrix;
+  const rolling = matrix.rolling!;
+  const windows = rolling.windows;
+  const symbol = CORRELATION_METHOD_SYMBOLS[method];
+
+  const [pair, setPair] = useState<[number, number]>(() => findMostUnstablePair(windows, variables.length));
+  const [current, setCurrent] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [hoverIdx, setHoverIdx] = useState<number | null>(null);
+
+  // Animation: advance one window per tick, stop at the last one
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = window.setInterval(() => {
+      setCurrent(prev => {
+        if (prev >= windows.length - 1) {
+          setIsPlaying(false);
+          return prev;
+        }
+        return prev + 1;
+      });
+    }, PLAY_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [isPlaying, windows.length]);
+
+  const [a, b] = pair;
+  const series = useMemo(() => windows.map(w => w.grid[a][b]), [windows, a, b]);
+  const overall = grid[a][b];
+
+  const xScale = d3.scaleLinear().domain([0, Math.max(1, windows.length - 1)]).range([0, CHART_WIDTH]);
+  const yScale = d3.scaleLinear().domain([-1, 1]).range([CHART_HEIGHT, 0]);
+  const linePath = d3.line<number | null>()
+    .defined(r => r !== null)
+    .x((_, i) => xScale(i))
+    .y(r => yScale(r ?? 0))(series) ?? '';
+  const xTicks = xScale.ticks(6).filter(t => Number.isInteger(t) && t < windows.length);
+
+  const handleChartMove = (e: React.MouseEvent<SVGRectElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const idx = Math.round(xScale.invert(e.clientX - rect.left));
+    setHoverIdx(Math.max(0, Math.min(windows.length - 1, idx)));
+  };
+
+  const selectPair = (i: number, j: number) => {
+    if (i !== j) setPair(i < j ? [i, j] : [j, i]);
+  };
+
+  const currentWindow = windows[current];
+  const hovered = hoverIdx !== null ? windows[hoverIdx] : null;
+  const cellSize = HEATMAP_SIZE / Math.max(1, variables.length);
+
+  if (windows.length === 0) {
+    return (
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 text-sm text-slate-500">
+        資料列數少於視窗大小，沒有可計算的視窗
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          滾動視窗相關
+          <span className="text-xs font-medium text-blue-700 bg-blue-50 border border-blue-100 rounded px-2 py-0.5">
+            {CORRELATION_METHOD_LABELS[method]}
+          </span>
+          <span className="text-xs font-medium text-sky-800 bg-sky-50 border border-sky-200 rounded px-2 py-0.5">
+            視窗 {rolling.window} 列 · 間隔 {rolling.step} 列 · 依 {rolling.orderColumn} 排序 · {windows.length} 個視窗
+          </span>
+        </h3>
+        <div className="flex items-center gap-2 text-sm text-slate-600">
+          <select
+            value={a}
+            onChange={(e) => selectPair(Number(e.target.value), b)}
+            className="px-2 py-1 text-xs border border-slate-300 rounded bg-white max-w-[180px]"
+          >
+            {variables.map((v, i) => <option key={i} value={i} disabled={i === b}>{v}</option>)}
+          </select>
+          ×
+          <select
+            value={b}
+            onChange={(e) => selectPair(a, Number(e.target.value))}
+            className="px-2 py-1 text-xs border border-slate-300 rounded bg-white max-w-[180px]"
+          >
+            {variables.map((v, i) => <option key={i} value={i} disabled={i === a}>{v}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {/* Coefficient of the chosen pair over time */}
+      <div className="relative">
+        <svg width={MARGIN.left + CHART_WIDTH + MARGIN.right} height={MARGIN.top + CHART_HEIGHT + MARGIN.bottom} className="block">
+          <g transform={`translate(${MARGIN.left},${MARGIN.top})`}>
+            <rect width={CHART_WIDTH} height={CHART_HEIGHT} fill="#f8fafc" stroke="#e2e8f0" />
+            {yScale.ticks(8).map(t => (
+              <g key={`y-${t}`} transform={`translate(0,${yScale(t)})`}>
+                <line x2={-5} stroke="#94a3b8" />
+                <line x2={CHART_WIDTH} stroke={t === 0 ? '#64748b' : '#e2e8f0'} />
+                <text x={-8} dy="0.32em" textAnchor="end" className="fill-slate-500 text-[10px]">{t.toFixed(2)}</text>
+              </g>
+            ))}
+            {xTicks.map(t => (
+              <g key={`x-${t}`} transform={`translate(${xScale(t)},${CHART_HEIGHT})`}>
+                <line y2={5} stroke="#94a3b8" />
+                <text y={18} textAnchor="middle" className="fill-slate-500 text-[10px]">{windows[t].endLabel}</text>
+              </g>
+            ))}
+            <text transform={`translate(${-36},${CHART_HEIGHT / 2}) rotate(-90)`} textAnchor="middle" className="fill-slate-700 text-xs font-medium">
+              {symbol}
+            </text>
+
+            {/* Coefficient over all observations, for reference */}
+            {overall !== null && (
+              <line x2={CHART_WIDTH} y1={yScale(overall)} y2={yScale(overall)} stroke="#64748b" strokeDasharray="4,3" />
+            )}
+            <path d={linePath} fill="none" stroke="#2563eb" strokeWidth={2} />
+            <line x1={xScale(current)} x2={xScale(current)} y2={CHART_HEIGHT} stroke="#dc2626" strokeWidth={1.5} />
+            {hovered && series[hoverIdx!] !== null && (
+              <circle cx={xScale(hoverIdx!)} cy={yScale(series[hoverIdx!]!)} r={4} fill="#2563eb" stroke="white" strokeWidth={1.5} />
+            )}
+
+            <rect
+              width={CHART_WIDTH}
+              height={CHART_HEIGHT}
+              fill="transparent"
+              className="cursor-pointer"
+              onMouseMove={handleChartMove}
+              onMouseLeave={() => setHoverIdx(null)}
+              onClick={() => hoverIdx !== null && setCurrent(hoverIdx)}
+            />
+          </g>
+        </svg>
+
+        {hovered && (
+          <div
+            className="absolute bg-slate-900 text-white text-xs p-2 rounded shadow-xl whitespace-nowrap pointer-events-none"
+            style={{ left: MARGIN.left + xScale(hoverIdx!) + 10, top: MARGIN.top + 8 }}
+          >
+            <div className="font-semibold mb-1">{windowLabel(hovered)}</div>
+            <div className="font-mono text-slate-300">{symbol} = {series[hoverIdx!] !== null ? series[hoverIdx!]!.toFixed(4) : 'N/A'}</div>
+            <div className="font-mono text-slate-300">N = {hovered.sampleSizes[a][b]}</div>
+          </div>
+        )}
+        <p className="mt-1 text-xs text-slate-400">
+          虛線為全部資料的 {symbol}{overall !== null ? ` = ${overall.toFixed(3)}` : ''}；點擊圖表可跳到該視窗的熱圖
+        </p>
+      </div>
+
+      {/* Full heatmap of one window, scrubbable and animated */}
+      <div className="flex flex-wrap items-start gap-6">
+        <svg width={HEATMAP_SIZE} height={HEATMAP_SIZE} className="block shrink-0">
+          {variables.map((_, r) => variables.map((__, c) => {
+            const value = currentWindow.grid[r][c];
+            const isSelected = (r === a && c === b) || (r === b && c === a);
+            return (
+              <rect
+                key={`${r}-${c}`}
+                x={c * cellSize}
+                y={r * cellSize}
+                width={cellSize}
+                height={cellSize}
+                fill={r === c ? '#f8fafc' : value === null ? UNDEFINED_COLOR : color(value)}
+                stroke={isSelected ? '#0f172a' : 'none'}
+                strokeWidth={isSelected ? 2 : 0}
+                className={r !== c ? 'cursor-pointer' : undefined}
+                onClick={() => selectPair(r, c)}
+              >
+                {r !== c && (
+                  <title>
+                    {`${variables[r]} × ${variables[c]}: ${value !== null ? value.toFixed(2) : 'N/A'} (N=${currentWindow.sampleSizes[r][c]})`}
+                  </title>
+                )}
+              </rect>
+            );
+          }))}
+        </svg>
+
+        <div className="flex-1 min-w-[240px] space-y-3 text-sm text-slate-600">
+          <div className="font-medium text-slate-800">{windowLabel(currentWindow)}</div>
+          <div className="text-xs text-slate-500">
+            第 {current + 1} / {windows.length} 個視窗（第 {currentWindow.start + 1} – {currentWindow.end + 1} 列）
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => {
+                if (!isPlaying && current >= windows.length - 1) setCurrent(0);
+                setIsPlaying(!isPlaying);
+              }}
+              className="p-1.5 rounded-md border border-slate-200 text-slate-600 hover:bg-slate-50"
+              title={isPlaying ? '暫停' : '播放'}
+            >
+              {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={windows.length - 1}
+              value={current}
+              onChange={(e) => {
+                setIsPlaying(false);
+                setCurrent(Number(e.target.value));
+              }}
+              className="flex-1"
+            />
+          </div>
+          <div className="text-xs text-slate-500">
+            {variables[a]} × {variables[b]}：{symbol} = {series[current] !== null ? series[current]!.toFixed(4) : 'N/A'}
+          </div>
+          <p className="text-xs text-slate-400">點擊熱圖中的格子可切換上方折線圖的變數配對</p>
+        </div>
+      </div>
+    </div>
+  );
+};
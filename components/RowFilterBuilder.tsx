@@ -0,0 +1,177 @@
+import React, { useMemo } from 'react';
+import { Filter, Plus, X } from 'lucide-react';
+import { RowFilter, RowFilterCondition, RowFilterOperator } from '../types';
+import { ROW_FILTER_OPERATOR_LABELS } from '../utils/rowFilter';
+
+interface RowFilterBuilderProps {
+  headers: string[];
+  rows: any[][];
+  filter: RowFilter;
+  onChange: (filter: RowFilter) => void;
+  rowsPassed: number;
+  disabled?: boolean;
+}
+
+// Distinct values offered as suggestions for equals / in-list conditions
+const MAX_SUGGESTIONS = 200;
+
+export const RowFilterBuilder: React.FC<RowFilterBuilderProps> = ({ headers, rows, filter, onChange, rowsPassed, disabled = false }) => {
+  const usedColumns = useMemo(
+    () => Array.from(new Set(filter.conditions.map(c => c.column))),
+    [filter.conditions]
+  );
+
+  const suggestions = useMemo(() => {
+    const byColumn = new Map<number, string[]>();
+    usedColumns.forEach(column => {
+      const values = new Set<string>();
+      for (const row of rows) {
+        const cell = row[column];
+        if (cell !== null && cell !== undefined && String(cell).trim() !== '') values.add(String(cell));
+        if (values.size >= MAX_SUGGESTIONS) break;
+      }
+      byColumn.set(column, Array.from(values));
+    });
+    return byColumn;
+  }, [rows, usedColumns]);
+
+  const updateCondition = (id: number, patch: Partial<RowFilterCondition>) => {
+    onChange({ ...filter, conditions: filter.conditions.map(c => c.id === id ? { ...c, ...patch } : c) });
+  };
+
+  const addCondition = () => {
+    const id = Math.max(0, ...filter.conditions.map(c => c.id)) + 1;
+    onChange({ ...filter, conditions: [...filter.conditions, { id, column: 0, operator: 'equals', value: '', min: '', max: '' }] });
+  };
+
+  const removeCondition = (id: number) => {
+    onChange({ ...filter, conditions: filter.conditions.filter(c => c.id !== id) });
+  };
+
+  const inputClass = 'px-2 py-1 text-xs border border-slate-300 rounded bg-white';
+
+  const renderValueInputs = (condition: RowFilterCondition) => {
+    switch (condition.operator) {
+      case 'equals':
+      case 'inList':
+      case 'contains':
+        return (
+          <>
+            <input
+              type="text"
+              value={condition.value}
+              onChange={(e) => updateCondition(condition.id, { value: e.target.value })}
+              list={condition.operator === 'equals' ? `row-filter-values-${condition.id}` : undefined}
+              placeholder={condition.operator === 'inList' ? '以逗號分隔，例如：北區, 中區' : '值'}
+              disabled={disabled}
+              className={`${inputClass} w-56`}
+            />
+            {condition.operator === 'equals' && (
+              <datalist id={`row-filter-values-${condition.id}`}>
+                {(suggestions.get(condition.column) ?? []).map(v => <option key={v} value={v} />)}
+              </datalist>
+            )}
+          </>
+        );
+      case 'numberRange':
+      case 'dateRange': {
+        const type = condition.operator === 'dateRange' ? 'date' : 'text';
+        return (
+          <>
+            <input
+              type={type}
+              value={condition.min}
+              onChange={(e) => updateCondition(condition.id, { min: e.target.value })}
+              placeholder="最小值"
+              disabled={disabled}
+              className={`${inputClass} w-32`}
+            />
+            <span className="text-slate-400">~</span>
+            <input
+              type={type}
+              value={condition.max}
+              onChange={(e) => updateCondition(condition.id, { max: e.target.value })}
+              placeholder="最大值"
+              disabled={disabled}
+              className={`${inputClass} w-32`}
+            />
+          </>
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600">
+        <span className="flex items-center gap-1">
+          <Filter className="w-3.5 h-3.5 text-slate-400" />
+          資料篩選：
+        </span>
+        {filter.conditions.length > 1 && (
+          <div className="flex rounded-lg overflow-hidden border border-slate-300">
+            {(['and', 'or'] as const).map((combinator, i) => (
+              <button
+                key={combinator}
+                onClick={() => onChange({ ...filter, combinator })}
+                disabled={disabled}
+                className={`px-2 py-1 text-xs font-medium transition-colors ${i > 0 ? 'border-l border-slate-300' : ''} ${
+                  filter.combinator === combinator ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'
+                }`}
+              >
+                {combinator === 'and' ? '全部符合 (AND)' : '任一符合 (OR)'}
+              </button>
+            ))}
+          </div>
+        )}
+        <button
+          onClick={addCondition}
+          disabled={disabled || headers.length === 0}
+          className="flex items-center gap-1 text-xs px-2 py-1 text-blue-600 hover:bg-blue-50 rounded"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          新增條件
+        </button>
+        {filter.conditions.length > 0 && (
+          <span className="text-xs text-slate-500">
+            符合條件：<span className="font-semibold text-slate-700">{rowsPassed}</span> / {rows.length} 列
+          </span>
+        )}
+      </div>
+
+      {filter.conditions.map(condition => (
+        <div key={condition.id} className="flex flex-wrap items-center gap-2 pl-5 text-xs">
+          <select
+            value={condition.column}
+            onChange={(e) => updateCondition(condition.id, { column: Number(e.target.value) })}
+            disabled={disabled}
+            className={`${inputClass} max-w-[180px]`}
+          >
+            {headers.map((h, i) => (
+              <option key={i} value={i}>{h || `欄位 ${i + 1}`}</option>
+            ))}
+          </select>
+          <select
+            value={condition.operator}
+            onChange={(e) => updateCondition(condition.id, { operator: e.target.value as RowFilterOperator })}
+            disabled={disabled}
+            className={inputClass}
+          >
+            {(Object.keys(ROW_FILTER_OPERATOR_LABELS) as RowFilterOperator[]).map(op => (
+              <option key={op} value={op}>{ROW_FILTER_OPERATOR_LABELS[op]}</option>
+            ))}
+          </select>
+          {renderValueInputs(condition)}
+          <button
+            onClick={() => removeCondition(condition.id)}
+            disabled={disabled}
+            className="p-1 text-slate-400 hover:text-red-500 rounded"
+            title="移除條件"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
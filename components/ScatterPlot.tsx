@@ -0,0 +1,223 @@
+import React, { useMemo, useState } from 'react';
+import * as d3 from 'd3';
+import { X } from 'lucide-react';
+import { VariableData } from '../types';
+import { calculateLinearRegression } from '../utils/statistics';
+
+interface ScatterPlotProps {
+  xVariable: VariableData;
+  yVariable: VariableData;
+  observationLabels?: string[];
+  onClose: () => void;
+}
+
+// Layout of the main plot and the marginal histograms (pixels)
+const PLOT_SIZE = 420;
+const MARGINAL_SIZE = 60;
+const MARGIN = { top: 12, right: 12, bottom: 40, left: 64 };
+const HISTOGRAM_BINS = 20;
+
+// Above this many points, draw them as one path instead of individual circles
+const MAX_CIRCLES = 5000;
+
+interface Point {
+  x: number;
+  y: number;
+  label: string;
+}
+
+const formatTick = d3.format('~s');
+
+export const ScatterPlot: React.FC<ScatterPlotProps> = ({ xVariable, yVariable, observationLabels, onClose }) => {
+  const [hoverIdx, setHoverIdx] = useState<number | null>(null);
+
+  const points = useMemo(() => {
+    const result: Point[] = [];
+    const length = Math.min(xVariable.values.length, yVariable.values.length);
+    for (let i = 0; i < length; i++) {
+      const x = xVariable.values[i];
+      const y = yVariable.values[i];
+      if (!Number.isFinite(x) || !Number.isFinite(y)) continue;
+      result.push({ x, y, label: observationLabels?.[i] ?? `第 ${i + 1} 列` });
+    }
+    return result;
+  }, [xVariable, yVariable, observationLabels]);
+
+  const regression = useMemo(
+    () => calculateLinearRegression(points.map(p => p.x), points.map(p => p.y)),
+    [points]
+  );
+
+  const { xScale, yScale, xBins, yBins, countScaleX, countScaleY, delaunay } = useMemo(() => {
+    const xExtent = d3.extent(points, p => p.x) as [number, number];
+    const yExtent = d3.extent(points, p => p.y) as [number, number];
+    const xScale = d3.scaleLinear().domain(xExtent[0] === undefined ? [0, 1] : xExtent).nice().range([0, PLOT_SIZE]);
+    const yScale = d3.scaleLinear().domain(yExtent[0] === undefined ? [0, 1] : yExtent).nice().range([PLOT_SIZE, 0]);
+
+    const xBins = d3.bin<Point, number>().value(p => p.x).domain(xScale.domain() as [number, number]).thresholds(HISTOGRAM_BINS)(points);
+    const yBins = d3.bin<Point, number>().value(p => p.y).domain(yScale.domain() as [number, number]).thresholds(HISTOGRAM_BINS)(points);
+    const countScaleX = d3.scaleLinear().domain([0, d3.max(xBins, b => b.length) ?? 1]).range([0, MARGINAL_SIZE - 6]);
+    const countScaleY = d3.scaleLinear().domain([0, d3.max(yBins, b => b.length) ?? 1]).range([0, MARGINAL_SIZE - 6]);
+
+    // Nearest-point lookup for hover, cheap even for very large samples
+    const delaunay = d3.Delaunay.from(points, p => xScale(p.x), p => yScale(p.y));
+    return { xScale, yScale, xBins, yBins, countScaleX, countScaleY, delaunay };
+  }, [points]);
+
+  const handleMouseMove = (e: React.MouseEvent<SVGRectElement>) => {
+    if (points.length === 0) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const idx = delaunay.find(e.clientX - rect.left, e.clientY - rect.top);
+    const p = points[idx];
+    const distance = Math.hypot(xScale(p.x) - (e.clientX - rect.left), yScale(p.y) - (e.clientY - rect.top));
+    setHoverIdx(distance < 20 ? idx : null);
+  };
+
+  const pointsPath = useMemo(() => {
+    if (points.length <= MAX_CIRCLES) return null;
+    return points.map(p => `M${xScale(p.x) - 1},${yScale(p.y) - 1}h2v2h-2z`).join('');
+  }, [points, xScale, yScale]);
+
+  const [xMin, xMax] = xScale.domain();
+  const hovered = hoverIdx !== null ? points[hoverIdx] : null;
+
+  const width = MARGIN.left + PLOT_SIZE + MARGINAL_SIZE + MARGIN.right;
+  const height = MARGIN.top + MARGINAL_SIZE + PLOT_SIZE + MARGIN.bottom;
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-2xl p-6 max-w-[95vw] max-h-[95vh] overflow-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-start justify-between gap-6 mb-4">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">散佈圖</h3>
+            <p className="text-sm text-slate-500">
+              <span className="font-medium text-slate-700">{xVariable.name}</span>
+              {' × '}
+              <span className="font-medium text-slate-700">{yVariable.name}</span>
+              <span className="ml-2">（{points.length} 筆配對資料）</span>
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1.5 rounded-md text-slate-400 hover:text-slate-700 hover:bg-slate-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {regression && (
+          <div className="mb-3 flex flex-wrap gap-4 text-sm font-mono text-slate-600">
+            <span>y = {regression.slope.toPrecision(4)}x {regression.intercept >= 0 ? '+' : '−'} {Math.abs(regression.intercept).toPrecision(4)}</span>
+            <span>R² = {regression.rSquared.toFixed(4)}</span>
+          </div>
+        )}
+
+        <div className="relative">
+          <svg width={width} height={height} className="block">
+            {/* Top marginal histogram (x) */}
+            <g transform={`translate(${MARGIN.left},${MARGIN.top})`}>
+              {xBins.map((bin, i) => (
+                <rect
+                  key={i}
+                  x={xScale(bin.x0 ?? 0) + 0.5}
+                  y={MARGINAL_SIZE - countScaleX(bin.length)}
+                  width={Math.max(0, xScale(bin.x1 ?? 0) - xScale(bin.x0 ?? 0) - 1)}
+                  height={countScaleX(bin.length)}
+                  fill="#93c5fd"
+                />
+              ))}
+            </g>
+
+            {/* Right marginal histogram (y) */}
+            <g transform={`translate(${MARGIN.left + PLOT_SIZE},${MARGIN.top + MARGINAL_SIZE})`}>
+              {yBins.map((bin, i) => (
+                <rect
+                  key={i}
+                  x={0}
+                  y={yScale(bin.x1 ?? 0) + 0.5}
+                  width={countScaleY(bin.length)}
+                  height={Math.max(0, yScale(bin.x0 ?? 0) - yScale(bin.x1 ?? 0) - 1)}
+                  fill="#fca5a5"
+                />
+              ))}
+            </g>
+
+            {/* Main plot */}
+            <g transform={`translate(${MARGIN.left},${MARGIN.top + MARGINAL_SIZE})`}>
+              <rect width={PLOT_SIZE} height={PLOT_SIZE} fill="#f8fafc" stroke="#e2e8f0" />
+
+              {/* Axes */}
+              {xScale.ticks(6).map(t => (
+                <g key={`x-${t}`} transform={`translate(${xScale(t)},${PLOT_SIZE})`}>
+                  <line y2={5} stroke="#94a3b8" />
+                  <text y={18} textAnchor="middle" className="fill-slate-500 text-[10px]">{formatTick(t)}</text>
+                </g>
+              ))}
+              {yScale.ticks(6).map(t => (
+                <g key={`y-${t}`} transform={`translate(0,${yScale(t)})`}>
+                  <line x2={-5} stroke="#94a3b8" />
+                  <text x={-8} dy="0.32em" textAnchor="end" className="fill-slate-500 text-[10px]">{formatTick(t)}</text>
+                </g>
+              ))}
+              <text x={PLOT_SIZE / 2} y={PLOT_SIZE + 34} textAnchor="middle" className="fill-slate-700 text-xs font-medium">
+                {xVariable.name}
+              </text>
+              <text transform={`translate(${-50},${PLOT_SIZE / 2}) rotate(-90)`} textAnchor="middle" className="fill-slate-700 text-xs font-medium">
+                {yVariable.name}
+              </text>
+
+              {/* Points */}
+              {pointsPath ? (
+                <path d={pointsPath} fill="#2563eb" fillOpacity={0.4} />
+              ) : (
+                points.map((p, i) => (
+                  <circle key={i} cx={xScale(p.x)} cy={yScale(p.y)} r={3.5} fill="#2563eb" fillOpacity={0.55} />
+                ))
+              )}
+
+              {/* OLS fit line, clipped to the plot area */}
+              {regression && (
+                <line
+                  x1={xScale(xMin)}
+                  y1={yScale(regression.intercept + regression.slope * xMin)}
+                  x2={xScale(xMax)}
+                  y2={yScale(regression.intercept + regression.slope * xMax)}
+                  stroke="#dc2626"
+                  strokeWidth={2}
+                  clipPath="url(#scatter-clip)"
+                />
+              )}
+              <clipPath id="scatter-clip">
+                <rect width={PLOT_SIZE} height={PLOT_SIZE} />
+              </clipPath>
+
+              {hovered && (
+                <circle cx={xScale(hovered.x)} cy={yScale(hovered.y)} r={6} fill="none" stroke="#0f172a" strokeWidth={2} />
+              )}
+
+              {/* Transparent layer capturing the mouse for nearest-point hover */}
+              <rect
+                width={PLOT_SIZE}
+                height={PLOT_SIZE}
+                fill="transparent"
+                onMouseMove={handleMouseMove}
+                onMouseLeave={() => setHoverIdx(null)}
+              />
+            </g>
+          </svg>
+
+          {hovered && (
+            <div
+              className="absolute bg-slate-900 text-white text-xs p-2 rounded shadow-xl whitespace-nowrap pointer-events-none"
+              style={{
+                left: MARGIN.left + xScale(hovered.x) + 10,
+                top: MARGIN.top + MARGINAL_SIZE + yScale(hovered.y) + 10,
+              }}
+            >
+              <div className="font-semibold mb-1">{hovered.label}</div>
+              <div className="font-mono text-slate-300">{xVariable.name}: {hovered.x.toLocaleString()}</div>
+              <div className="font-mono text-slate-300">{yVariable.name}: {hovered.y.toLocaleString()}</div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+import React, { useMemo, useState } from 'react';
+import * as XLSX from 'xlsx';
+import { Layers, FileSpreadsheet, CheckSquare, Square, AlertCircle, ArrowRight } from 'lucide-react';
+import { summarizeSheets, sheetToRows, stackSheets, findLayoutMismatch } from '../utils/workbook';
+
+interface SheetPickerProps {
+  workbook: XLSX.WorkBook;
+  fileName: string;
+  onConfirm: (rows: any[][], sheetLabel: string) => void;
+  onCancel: () => void;
+}
+
+type PickMode = 'single' | 'stack';
+
+export const SheetPicker: React.FC<SheetPickerProps> = ({ workbook, fileName, onConfirm, onCancel }) => {
+  const sheets = useMemo(() => summarizeSheets(workbook), [workbook]);
+  const [mode, setMode] = useState<PickMode>('single');
+  const firstNonEmpty = sheets.find(s => s.rowCount > 0)?.name ?? sheets[0]?.name;
+  const [selected, setSelected] = useState<string[]>(firstNonEmpty ? [firstNonEmpty] : []);
+  const [hasHeaderRow, setHasHeaderRow] = useState(true);
+
+  const toggleSheet = (name: string) => {
+    if (mode === 'single') {
+      setSelected([name]);
+      return;
+    }
+    setSelected(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
+  };
+
+  const changeMode = (next: PickMode) => {
+    setMode(next);
+    if (next === 'single') setSelected(prev => prev.slice(0, 1));
+  };
+
+  // Keep workbook order regardless of click order
+  const orderedSelection = sheets.map(s => s.name).filter(name => selected.includes(name));
+
+  const selectionKey = orderedSelection.join('\u0000');
+
+  const mismatch = useMemo(
+    () => mode === 'stack' && orderedSelection.length > 1 ? findLayoutMismatch(workbook, orderedSelection, hasHeaderRow) : null,
+    [workbook, mode, selectionKey, hasHeaderRow]
+  );
+
+  const canConfirm = mode === 'single'
+    ? orderedSelection.length === 1
+    : orderedSelection.length >= 2 && !mismatch;
+
+  const handleConfirm = () => {
+    if (mode === 'single') {
+      onConfirm(sheetToRows(workbook, orderedSelection[0]), orderedSelection[0]);
+    } else {
+      onConfirm(stackSheets(workbook, orderedSelection, hasHeaderRow), orderedSelection.join(' + '));
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <Layers className="w-5 h-5 text-blue-600" />
+            選擇工作表
+          </h2>
+          <p className="text-slate-500 mt-1 text-sm">
+            「{fileName}」包含 {sheets.length} 個工作表，請選擇要分析的資料。
+          </p>
+        </div>
+        <button
+          onClick={onCancel}
+          className="text-sm text-slate-500 hover:text-red-500 underline decoration-slate-300"
+        >
+          重新上傳
+        </button>
+      </div>
+
+      {/* Mode Toggle */}
+      <div className="mb-4 flex flex-wrap items-center gap-4 p-3 bg-slate-50 rounded-lg">
+        <div className="flex rounded-lg overflow-hidden border border-slate-300">
+          <button
+            onClick={() => changeMode('single')}
+            className={`px-3 py-1.5 text-xs font-medium transition-colors ${
+              mode === 'single' ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'
+            }`}
+          >
+            單一工作表
+          </button>
+          <button
+            onClick={() => changeMode('stack')}
+            className={`px-3 py-1.5 text-xs font-medium transition-colors border-l border-slate-300 ${
+              mode === 'stack' ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-100'
+            }`}
+          >
+            合併多個工作表
+          </button>
+        </div>
+        {mode === 'stack' && (
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={hasHeaderRow}
+              onChange={(e) => setHasHeaderRow(e.target.checked)}
+              className="w-4 h-4 text-blue-600 rounded border-slate-300 focus:ring-blue-500"
+            />
+            <span className="text-sm text-slate-700">每個工作表的第一列是標題</span>
+          </label>
+        )}
+        {mode === 'stack' && (
+          <span className="text-xs text-slate-500">合併後會新增「工作表」欄位，標示每列資料的來源</span>
+        )}
+      </div>
+
+      {/* Sheet List */}
+      <div className="grid md:grid-cols-2 gap-3 max-h-[480px] overflow-auto">
+        {sheets.map(sheet => {
+          const isSelected = selected.includes(sheet.name);
+          const isEmpty = sheet.rowCount === 0;
+          return (
+            <button
+              key={sheet.name}
+              onClick={() => !isEmpty && toggleSheet(sheet.name)}
+              disabled={isEmpty}
+              className={`text-left p-3 rounded-lg border transition-colors ${
+                isEmpty
+                  ? 'border-slate-100 bg-slate-50 opacity-60 cursor-not-allowed'
+                  : isSelected
+                    ? 'border-blue-400 bg-blue-50/50 ring-1 ring-blue-400'
+                    : 'border-slate-200 hover:border-slate-300'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  {mode === 'stack' ? (
+                    isSelected
+                      ? <CheckSquare className="w-4 h-4 text-blue-600 flex-shrink-0" />
+                      : <Square className="w-4 h-4 text-slate-300 flex-shrink-0" />
+                  ) : (
+                    <FileSpreadsheet className={`w-4 h-4 flex-shrink-0 ${isSelected ? 'text-blue-600' : 'text-slate-400'}`} />
+                  )}
+                  <span className="font-medium text-slate-800 truncate" title={sheet.name}>{sheet.name}</span>
+                </div>
+                <span className="text-xs text-slate-400 font-mono whitespace-nowrap">
+                  {isEmpty ? '空白' : `${sheet.rowCount} 列 × ${sheet.colCount} 欄`}
+                </span>
+              </div>
+
+              {/* Mini Preview */}
+              {!isEmpty && (
+                <table className="w-full text-[10px] text-slate-500 table-fixed">
+                  <tbody>
+                    {sheet.preview.map((row, rIdx) => (
+                      <tr key={rIdx} className="border-t border-slate-100">
+                        {Array.from({ length: Math.min(sheet.colCount, 6) }, (_, cIdx) => (
+                          <td key={cIdx} className="px-1 py-0.5 truncate" title={String(row[cIdx] ?? '')}>
+                            {row[cIdx] !== null && row[cIdx] !== undefined ? String(row[cIdx]) : ''}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {mismatch && (
+        <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg flex items-center gap-2 text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span>無法合併：{mismatch}</span>
+        </div>
+      )}
+
+      <div className="mt-6 flex justify-end">
+        <button
+          onClick={handleConfirm}
+          disabled={!canConfirm}
+          className={`flex items-center gap-2 px-6 py-2.5 rounded-lg font-medium transition-all ${
+            canConfirm
+              ? 'bg-blue-600 text-white hover:bg-blue-700 shadow-md hover:shadow-lg'
+              : 'bg-slate-200 text-slate-400 cursor-not-allowed'
+          }`}
+        >
+          {mode === 'stack' ? `合併 ${orderedSelection.length} 個工作表` : '使用此工作表'}
+          <ArrowRight className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,325 @@
+import React, { useMemo, useState } from 'react';
+import * as d3 from 'd3';
+import * as XLSX from 'xlsx';
+import { Crosshair, EyeOff, FileSpreadsheet, FileText, Search } from 'lucide-react';
+import { PValueAdjustment, TargetAnalysis, TargetCorrelation, VariableData } from '../types';
+import {
+  CORRELATION_METHOD_LABELS,
+  CORRELATION_METHOD_SYMBOLS,
+  UNDEFINED_REASON_LABELS,
+  fisherConfidenceInterval,
+  formatPValue,
+  getSignificanceStars,
+} from '../utils/statistics';
+import { P_VALUE_ADJUSTMENT_LABELS, adjustPValues } from '../utils/multipleComparisons';
+import { MISSING_DATA_STRATEGY_LABELS } from '../utils/missingData';
+import { formatRowFilter } from '../utils/rowFilter';
+import { downloadBlob } from '../utils/download';
+import { ScatterPlot } from './ScatterPlot';
+
+interface TargetCorrelationChartProps {
+  analysis: TargetAnalysis;
+  data?: VariableData[]; // Original series, enables the scatter-plot drill-down
+  observationLabels?: string[];
+}
+
+type SortKey = 'absolute' | 'coefficient' | 'name';
+
+const SORT_LABELS: Record<SortKey, string> = {
+  absolute: '依 |r| 排序',
+  coefficient: '依 r 排序',
+  name: '依名稱排序',
+};
+
+const SIGNIFICANCE_LEVELS = [0.05, 0.01, 0.001];
+const CONFIDENCE_LEVELS = [0.9, 0.95, 0.99];
+
+// Row layout of the bar chart (pixels)
+const ROW_HEIGHT = 24;
+const LABEL_WIDTH = 200;
+const BAR_WIDTH = 460;
+const VALUE_WIDTH = 130;
+const AXIS_HEIGHT = 24;
+
+interface Row extends TargetCorrelation {
+  adjustedPValue: number | null;
+  interval: [number, number] | null; // At the chosen confidence level
+}
+
+export const TargetCorrelationChart: React.FC<TargetCorrelationChartProps> = ({ analysis, data, observationLabels }) => {
+  const { target, method, results, missingData, rowFilter } = analysis;
+  const symbol = CORRELATION_METHOD_SYMBOLS[method];
+  const [sortKey, setSortKey] = useState<SortKey>('absolute');
+  const [adjustment, setAdjustment] = useState<PValueAdjustment>('none');
+  const [alpha, setAlpha] = useState(0.05);
+  const [hideNonSignificant, setHideNonSignificant] = useState(false);
+  const [confidenceLevel, setConfidenceLevel] = useState(0.95);
+  const [search, setSearch] = useState('');
+  const [hoverName, setHoverName] = useState<string | null>(null);
+  const [drillDown, setDrillDown] = useState<string | null>(null);
+
+  // The family for the adjustment is every testable candidate
+  const rows = useMemo(() => {
+    const testable = results.map((r, i) => (r.pValue === null ? -1 : i)).filter(i => i >= 0);
+    const adjusted = adjustPValues(testable.map(i => results[i].pValue!), adjustment);
+    const adjustedByIndex = new Map(testable.map((idx, k) => [idx, adjusted[k]]));
+    return results.map((r, i): Row => ({
+      ...r,
+      adjustedPValue: adjustedByIndex.get(i) ?? null,
+      interval: r.coefficient === null ? null : fisherConfidenceInterval(r.coefficient, r.n, confidenceLevel, method),
+    }));
+  }, [results, adjustment, confidenceLevel, method]);
+
+  const visibleRows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const value = (row: Row) => sortKey === 'absolute'
+      ? (row.coefficient === null ? null : Math.abs(row.coefficient))
+      : row.coefficient;
+    return rows
+      .filter(row => query === '' || row.var2.toLowerCase().includes(query))
+      .filter(row => !hideNonSignificant || (row.adjustedPValue !== null && row.adjustedPValue <= alpha))
+      .sort((a, b) => {
+        if (sortKey === 'name') return a.var2.localeCompare(b.var2, 'zh-Hant', { numeric: true });
+        const va = value(a);
+        const vb = value(b);
+        // Undefined correlations always sort last
+        if (va === null || vb === null) return va === null ? (vb === null ? 0 : 1) : -1;
+        return vb - va;
+      });
+  }, [rows, search, hideNonSignificant, alpha, sortKey]);
+
+  const xScale = d3.scaleLinear().domain([-1, 1]).range([0, BAR_WIDTH]);
+  const width = LABEL_WIDTH + BAR_WIDTH + VALUE_WIDTH;
+  const height = AXIS_HEIGHT + visibleRows.length * ROW_HEIGHT;
+  const significantCount = rows.filter(r => r.adjustedPValue !== null && r.adjustedPValue <= alpha).length;
+  const pValueLabel = adjustment === 'none' ? 'p 值' : `p 值 (${P_VALUE_ADJUSTMENT_LABELS[adjustment]} 校正)`;
+
+  const handleExport = (type: 'csv' | 'xlsx') => {
+    const ciLabel = `${Math.round(confidenceLevel * 100)}% CI`;
+    const sheetRows = [
+      ['目標變數', '變數', symbol, 'N', pValueLabel, `${ciLabel} 下限`, `${ciLabel} 上限`],
+      ...visibleRows.map(row => [
+        target,
+        row.var2,
+        row.coefficient ?? 'NA',
+        row.n,
+        row.adjustedPValue ?? '',
+        row.interval?.[0] ?? '',
+        row.interval?.[1] ?? '',
+      ]),
+    ];
+    const ws = XLSX.utils.aoa_to_sheet(sheetRows);
+    const fileName = `target_correlation_${method}_${new Date().toISOString().slice(0,10)}`;
+    if (type === 'csv') {
+      const blob = new Blob([XLSX.utils.sheet_to_csv(ws)], { type: 'text/csv;charset=utf-8;' });
+      downloadBlob(blob, `${fileName}.csv`);
+    } else {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, ws, 'Target');
+      XLSX.writeFile(workbook, `${fileName}.xlsx`);
+    }
+  };
+
+  const findSeries = (name: string) => data?.find(d => d.name === name);
+  const drillDownX = drillDown ? findSeries(drillDown) : undefined;
+  const drillDownY = drillDown ? findSeries(target) : undefined;
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-4">
+      {/* Top Controls Bar */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-lg font-bold text-slate-800 flex flex-wrap items-center gap-2">
+          <Crosshair className="w-5 h-5 text-blue-600" />
+          與「{target}」的相關
+          <span className="text-xs font-medium text-blue-700 bg-blue-50 border border-blue-100 rounded px-2 py-0.5">
+            {CORRELATION_METHOD_LABELS[method]}
+          </span>
+          {rowFilter && (
+            <span
+              className="text-xs font-medium text-emerald-800 bg-emerald-50 border border-emerald-200 rounded px-2 py-0.5 max-w-[320px] truncate"
+              title={formatRowFilter(rowFilter)}
+            >
+              篩選：{formatRowFilter(rowFilter)} · {rowFilter.rowsPassed} / {rowFilter.totalRows} 列
+            </span>
+          )}
+          {missingData && (
+            <span className="text-xs font-medium text-slate-600 bg-slate-50 border border-slate-200 rounded px-2 py-0.5">
+              {MISSING_DATA_STRATEGY_LABELS[missingData.strategy]} · 保留 {missingData.rowsKept} / {missingData.totalRows} 筆
+            </span>
+          )}
+        </h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => handleExport('xlsx')}
+            className="flex items-center gap-2 px-3 py-2 bg-green-600 text-white text-sm font-medium rounded hover:bg-green-700 transition-colors shadow-sm"
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            Excel
+          </button>
+          <button
+            onClick={() => handleExport('csv')}
+            className="flex items-center gap-2 px-3 py-2 bg-slate-600 text-white text-sm font-medium rounded hover:bg-slate-700 transition-colors shadow-sm"
+          >
+            <FileText className="w-4 h-4" />
+            CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-sm text-slate-600">
+        <label className="flex items-center gap-2 px-2 py-1 border border-slate-300 rounded bg-white">
+          <Search className="w-3.5 h-3.5 text-slate-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="搜尋變數名稱"
+            className="w-40 text-xs outline-none"
+          />
+        </label>
+        <select
+          value={sortKey}
+          onChange={(e) => setSortKey(e.target.value as SortKey)}
+          className="px-1.5 py-1 text-xs border border-slate-300 rounded bg-white"
+        >
+          {(Object.keys(SORT_LABELS) as SortKey[]).map(key => (
+            <option key={key} value={key}>{SORT_LABELS[key]}</option>
+          ))}
+        </select>
+        <div className="flex items-center gap-2 bg-slate-100 p-2 rounded-lg">
+          <select
+            value={adjustment}
+            onChange={(e) => setAdjustment(e.target.value as PValueAdjustment)}
+            className="px-1.5 py-0.5 text-xs border border-slate-300 rounded bg-white"
+            title="多重比較校正：同時檢定大量候選變數時，控制偽陽性"
+          >
+            {(Object.keys(P_VALUE_ADJUSTMENT_LABELS) as PValueAdjustment[]).map(m => (
+              <option key={m} value={m}>{P_VALUE_ADJUSTMENT_LABELS[m]}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={hideNonSignificant}
+              onChange={(e) => setHideNonSignificant(e.target.checked)}
+              className="w-4 h-4 text-blue-600 rounded border-slate-300 focus:ring-blue-500"
+            />
+            <EyeOff className="w-4 h-4 text-slate-500" />
+            隱藏不顯著
+          </label>
+          <select
+            value={alpha}
+            onChange={(e) => setAlpha(Number(e.target.value))}
+            className="px-1.5 py-0.5 text-xs border border-slate-300 rounded bg-white font-mono"
+          >
+            {SIGNIFICANCE_LEVELS.map(level => (
+              <option key={level} value={level}>α = {level}</option>
+            ))}
+          </select>
+        </div>
+        <label className="flex items-center gap-2 bg-slate-100 p-2 rounded-lg" title="Fisher z 轉換的信賴區間">
+          信賴區間
+          <select
+            value={confidenceLevel}
+            onChange={(e) => setConfidenceLevel(Number(e.target.value))}
+            className="px-1.5 py-0.5 text-xs border border-slate-300 rounded bg-white font-mono"
+          >
+            {CONFIDENCE_LEVELS.map(level => (
+              <option key={level} value={level}>{Math.round(level * 100)}%</option>
+            ))}
+          </select>
+        </label>
+        <span className="text-xs text-slate-500">
+          {visibleRows.length} / {rows.length} 個變數 · {significantCount} 個顯著
+        </span>
+      </div>
+
+      {/* Ranked Bars */}
+      <div className="overflow-auto max-h-[70vh] border border-slate-200 rounded-lg">
+        <svg width={width} height={height} className="block">
+          {/* Axis */}
+          <g transform={`translate(${LABEL_WIDTH},0)`}>
+            {xScale.ticks(10).map(t => (
+              <g key={`x-${t}`} transform={`translate(${xScale(t)},0)`}>
+                <line y1={AXIS_HEIGHT - 4} y2={height} stroke={t === 0 ? '#64748b' : '#f1f5f9'} />
+                <text y={AXIS_HEIGHT - 8} textAnchor="middle" className="fill-slate-500 text-[10px]">{t.toFixed(1)}</text>
+              </g>
+            ))}
+          </g>
+
+          {visibleRows.map((row, i) => {
+            const y = AXIS_HEIGHT + i * ROW_HEIGHT;
+            const stars = getSignificanceStars(row.adjustedPValue);
+            const isMuted = row.adjustedPValue === null || row.adjustedPValue > alpha;
+            const canDrill = Boolean(data);
+            return (
+              <g
+                key={row.var2}
+                transform={`translate(0,${y})`}
+                onMouseEnter={() => setHoverName(row.var2)}
+                onMouseLeave={() => setHoverName(null)}
+                onClick={() => canDrill && setDrillDown(row.var2)}
+                className={canDrill ? 'cursor-pointer' : undefined}
+              >
+                <rect width={width} height={ROW_HEIGHT} fill={hoverName === row.var2 ? '#f1f5f9' : 'transparent'} />
+                <text x={LABEL_WIDTH - 8} y={ROW_HEIGHT / 2} dy="0.32em" textAnchor="end" className="fill-slate-700 text-xs">
+                  {row.var2.length > 24 ? `${row.var2.slice(0, 23)}…` : row.var2}
+                </text>
+                <g transform={`translate(${LABEL_WIDTH},0)`}>
+                  {row.coefficient !== null && (
+                    <rect
+                      x={xScale(Math.min(0, row.coefficient))}
+                      y={5}
+                      width={Math.abs(xScale(row.coefficient) - xScale(0))}
+                      height={ROW_HEIGHT - 10}
+                      fill={row.coefficient > 0 ? '#dc2626' : '#2563eb'}
+                      fillOpacity={isMuted ? 0.3 : 0.8}
+                    />
+                  )}
+                  {/* Confidence interval whisker */}
+                  {row.interval && (
+                    <g stroke="#0f172a" strokeWidth={1.2}>
+                      <line x1={xScale(row.interval[0])} x2={xScale(row.interval[1])} y1={ROW_HEIGHT / 2} y2={ROW_HEIGHT / 2} />
+                      <line x1={xScale(row.interval[0])} x2={xScale(row.interval[0])} y1={ROW_HEIGHT / 2 - 4} y2={ROW_HEIGHT / 2 + 4} />
+                      <line x1={xScale(row.interval[1])} x2={xScale(row.interval[1])} y1={ROW_HEIGHT / 2 - 4} y2={ROW_HEIGHT / 2 + 4} />
+                    </g>
+                  )}
+                </g>
+                <text x={LABEL_WIDTH + BAR_WIDTH + 8} y={ROW_HEIGHT / 2} dy="0.32em" className="fill-slate-600 text-xs font-mono">
+                  {row.coefficient !== null ? row.coefficient.toFixed(3) : 'N/A'}
+                  {stars && <tspan className="fill-amber-600"> {stars}</tspan>}
+                </text>
+                <title>
+                  {[
+                    `${target} × ${row.var2}`,
+                    `${symbol} = ${row.coefficient !== null ? row.coefficient.toFixed(4) : 'N/A'}`,
+                    row.undefinedReason ? `原因：${UNDEFINED_REASON_LABELS[row.undefinedReason]}` : null,
+                    `N = ${row.n}`,
+                    `${pValueLabel} = ${formatPValue(row.adjustedPValue)}`,
+                    `${Math.round(confidenceLevel * 100)}% CI: ${row.interval ? `[${row.interval[0].toFixed(3)}, ${row.interval[1].toFixed(3)}]` : 'N/A'}`,
+                  ].filter(Boolean).join('\n')}
+                </title>
+              </g>
+            );
+          })}
+        </svg>
+        {visibleRows.length === 0 && (
+          <p className="px-3 py-4 text-center text-xs text-slate-400">沒有符合條件的變數</p>
+        )}
+      </div>
+
+      <div className="text-xs text-slate-500">
+        橫線為 {Math.round(confidenceLevel * 100)}% 信賴區間；不顯著的長條以淡色顯示；點擊長條查看散佈圖
+      </div>
+
+      {drillDownX && drillDownY && (
+        <ScatterPlot
+          xVariable={drillDownX}
+          yVariable={drillDownY}
+          observationLabels={observationLabels}
+          onClose={() => setDrillDown(null)}
+        />
+      )}
+    </div>
+  );
+};
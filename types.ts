@@ -2,9 +2,18 @@ export interface DataRow {
   [key: string]: any;
 }
 
+export interface HeaderLayout {
+  headerRowIndex: number; // First header row; rows above it are skipped as preamble
+  headerRowCount: number; // 0 = no header, >1 = multi-row header merged into composite names
+  skipTrailingRows: number; // Notes, totals etc. at the bottom
+}
+
+export type DataOrientation = 'columns' | 'rows'; // Which axis holds the variables
+
 export interface ParsedData {
-  headers: string[];
+  headers: string[]; // Column names under `layout`
   rows: any[][]; // Raw array of arrays
+  layout: HeaderLayout; // Suggested by utils/headerDetection
 }
 
 export interface VariableData {
@@ -15,10 +24,209 @@ export interface VariableData {
 export interface CorrelationResult {
   var1: string;
   var2: string;
-  coefficient: number;
+  coefficient: number | null; // null when the correlation is undefined
+  pValue: number | null;
+  n: number; // Pairwise-complete observations
+  confidenceInterval: [number, number] | null; // Fisher z interval, null when n is too small
+}
+
+export interface TargetCorrelation extends CorrelationResult {
+  undefinedReason: UndefinedCorrelationReason | null;
+}
+
+export type CorrelationMethod = 'pearson' | 'spearman' | 'kendall';
+
+export type UndefinedCorrelationReason = 'constantSeries' | 'insufficientPairs' | 'singularCovariance';
+
+export type PValueAdjustment = 'none' | 'bonferroni' | 'holm' | 'bh';
+
+export type MatrixOrdering = 'original' | 'alphabetical' | 'hclustAverage' | 'hclustComplete' | 'pcaAngle';
+
+export type MissingDataStrategy = 'pairwise' | 'listwise' | 'mean' | 'median' | 'forwardFill';
+
+export interface MissingDataSummary {
+  strategy: MissingDataStrategy;
+  totalRows: number;
+  rowsKept: number; // Rows usable under the strategy (see utils/missingData)
+  imputedCells: number;
+}
+
+export type DecimalSeparator = 'auto' | 'dot' | 'comma';
+
+export interface NumberFormatOptions {
+  decimalSeparator: DecimalSeparator; // 'auto' decides per column
+  percentAsFraction: boolean; // "12.5%" -> 0.125 instead of 12.5
+}
+
+export interface ColumnParseReport {
+  name: string;
+  numeric: number; // Cells that were already numbers
+  converted: number; // Text cells turned into numbers
+  rejected: number; // Non-empty cells that could not be read as numbers
+  empty: number;
+  rejectedSamples: string[]; // A few rejected values, for display
+}
+
+export type CsvEncoding = 'utf-8' | 'big5' | 'gbk' | 'shift_jis';
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+
+export type CsvQuote = '"' | "'" | 'none';
+
+export interface CsvImportOptions {
+  encoding: CsvEncoding; // UTF-8 covers files with and without a BOM
+  delimiter: CsvDelimiter;
+  quote: CsvQuote;
+}
+
+export type RowFilterOperator = 'equals' | 'inList' | 'numberRange' | 'dateRange' | 'contains';
+
+export interface RowFilterCondition {
+  id: number;
+  column: number;
+  operator: RowFilterOperator;
+  value: string; // equals / contains; comma-separated values for inList
+  min: string; // numberRange / dateRange bounds, inclusive; '' = open
+  max: string;
+}
+
+export interface RowFilter {
+  combinator: 'and' | 'or';
+  conditions: RowFilterCondition[];
+}
+
+export interface RowFilterSummary {
+  combinator: 'and' | 'or';
+  conditions: string[]; // Human-readable, e.g. "地區 = North"
+  rowsPassed: number;
+  totalRows: number;
+}
+
+export interface GroupBySettings {
+  column: string;
+  labels: string[]; // Group of each observation, aligned with the variables' values
+  minGroupSize: number; // Smaller groups are flagged, not dropped
+}
+
+export interface GroupSummary {
+  name: string;
+  size: number;
+  isSmall: boolean;
+}
+
+export interface MatrixGroup extends GroupSummary {
+  rowIndices: number[]; // Observations in this group
+  matrix: Matrix;
+}
+
+export interface MatrixSnapshot {
+  id: number;
+  label: string;
+  matrix: Matrix;
+}
+
+export interface CorrelationDifference {
+  var1: string;
+  var2: string;
+  r1: number | null;
+  r2: number | null;
+  n1: number;
+  n2: number;
+  difference: number | null; // r1 - r2
+  z: number | null;
+  pValue: number | null; // Fisher z test for independent correlations
+}
+
+export interface MatrixDifference {
+  variables: string[]; // Variables present in both matrices, in the first matrix's order
+  grid: (number | null)[][]; // r1 - r2
+  pValues: (number | null)[][];
+  pairs: CorrelationDifference[]; // Upper triangle, pairs present in both matrices only
+}
+
+export interface LagSettings {
+  orderColumn: string; // Column the rows were sorted by before analysis
+  minLag: number; // In rows; a positive lag means the row variable leads
+  maxLag: number;
+}
+
+export interface CrossCorrelationPoint {
+  lag: number;
+  coefficient: number | null;
+  pValue: number | null;
+  n: number;
+}
+
+export interface RollingSettings {
+  orderColumn: string; // Column the rows were sorted by before analysis
+  window: number; // Observations per window
+  step: number; // Observations between window starts
+  orderLabels: (string | undefined)[]; // Order-column value of each observation, names the windows
+}
+
+export interface RollingWindow {
+  start: number; // First observation in the window
+  end: number; // Last observation, inclusive
+  startLabel: string;
+  endLabel: string;
+  // Only the coefficients and counts are kept: a full Matrix per window
+  // would multiply the result size by the number of windows
+  grid: (number | null)[][];
+  sampleSizes: number[][];
+}
+
+export interface AnalysisOptions {
+  method: CorrelationMethod;
+  missingData: MissingDataStrategy;
+  controlVariables: string[]; // Non-empty switches to partial correlation
+  rowFilter?: RowFilterSummary; // Recorded on the result; rows are filtered before analysis
+  groupBy?: GroupBySettings; // Adds one matrix per category next to the overall one
+  lag?: LagSettings; // Switches to peak cross-correlation over a lag range
+  rolling?: RollingSettings; // Adds one matrix per sliding window next to the overall one
+  target?: string; // One-vs-all: correlates only this variable with every other one
+  variableSets?: { rows: string[]; columns: string[] }; // Set A × set B instead of all pairs; a variable may be in both
 }
 
 export type Matrix = {
-  variables: string[];
-  grid: number[][]; // [row_index][col_index]
-};
\ No newline at end of file
+  rowVariables: string[];
+  columnVariables: string[]; // Same names as rowVariables for an all-against-all matrix
+  grid: (number | null)[][]; // [row_index][col_index], null when the correlation is undefined
+  pValues: (number | null)[][]; // Two-sided p-value for each cell, null where row and column are the same variable
+  sampleSizes: number[][]; // Pairwise-complete observation count for each cell
+  undefinedReasons: (UndefinedCorrelationReason | null)[][]; // Why a null cell is undefined
+  method: CorrelationMethod;
+  missingData?: MissingDataSummary;
+  rowFilter?: RowFilterSummary;
+  controlVariables?: string[]; // Set when the grid holds partial correlations
+  groupBy?: { column: string; minGroupSize: number; groups: MatrixGroup[] }; // Set on the overall matrix only
+  lag?: LagSettings & { bestLags: (number | null)[][] }; // Set in lag mode; cells hold the peak over all lags
+  rolling?: Omit<RollingSettings, 'orderLabels'> & { windows: RollingWindow[] }; // Same variable order as the matrix
+};
+
+export interface TargetAnalysis {
+  target: string;
+  method: CorrelationMethod;
+  results: TargetCorrelation[]; // var1 is the target; one entry per candidate, in input order
+  missingData?: MissingDataSummary;
+  rowFilter?: RowFilterSummary;
+}
+
+export type AnalysisResult =
+  | { type: 'matrix'; matrix: Matrix }
+  | { type: 'target'; analysis: TargetAnalysis };
+
+export interface AnalysisProgress {
+  completed: number;
+  total: number;
+}
+
+// Messages exchanged with workers/analysis.worker.ts
+export type AnalysisWorkerRequest = {
+  variables: VariableData[];
+  options: AnalysisOptions;
+};
+
+export type AnalysisWorkerResponse =
+  | { type: 'progress'; progress: AnalysisProgress }
+  | { type: 'result'; result: AnalysisResult }
+  | { type: 'error'; message: string };
@@ -0,0 +1,122 @@
+import { AnalysisOptions, Matrix, TargetAnalysis, VariableData } from '../types';
+import { applyMissingDataStrategy } from './missingData';
+import { generateCorrelationMatrix, generateRectangularCorrelationMatrix, ProgressCallback } from './statistics';
+import { generatePartialCorrelationMatrix } from './partialCorrelation';
+import { splitGroups } from './grouping';
+import { generateLaggedCorrelationMatrix } from './lagCorrelation';
+import { generateRollingCorrelations, getWindowRanges } from './rollingCorrelation';
+import { generateTargetCorrelations } from './targetCorrelation';
+
+// One pass of the pipeline over the given observations
+const analyzeSubset = (
+  data: VariableData[],
+  options: AnalysisOptions,
+  onProgress?: ProgressCallback
+): Matrix => {
+  const { variables, summary } = applyMissingDataStrategy(data, options.missingData);
+  const controlNames = new Set(options.controlVariables);
+  const controls = variables.filter(v => controlNames.has(v.name));
+  const targets = variables.filter(v => !controlNames.has(v.name));
+
+  if (options.variableSets) {
+    const pick = (names: string[]) => names.map(name => {
+      const series = variables.find(v => v.name === name);
+      if (!series) throw new Error(`找不到變數：${name}`);
+      return series;
+    });
+    const { rows, columns } = options.variableSets;
+    const matrix = generateRectangularCorrelationMatrix(pick(rows), pick(columns), options.method, onProgress);
+    return { ...matrix, missingData: summary, rowFilter: options.rowFilter };
+  }
+
+  const matrix = options.lag
+    ? generateLaggedCorrelationMatrix(targets, options.method, options.lag, onProgress)
+    : controls.length > 0
+      ? generatePartialCorrelationMatrix(targets, controls, options.method, onProgress)
+      : generateCorrelationMatrix(targets, options.method, onProgress);
+  return { ...matrix, missingData: summary, rowFilter: options.rowFilter };
+};
+
+/**
+ * Runs the full analysis pipeline: missing-data handling followed by the
+ * correlation matrix, with the strategy summary (and the row filter that
+ * selected the data, if any) recorded on the result.
+ * When control variables are given, they are split off and the matrix of
+ * the remaining variables holds partial correlations.
+ * In lag mode each cell holds the peak cross-correlation over the lag range
+ * (control variables do not apply there).
+ * With variable sets, only set A (rows) × set B (columns) is computed;
+ * lags, control variables and rolling windows do not apply there.
+ * With a group-by column, the same pipeline also runs on each group's
+ * observations; every group is kept, small ones are only flagged.
+ * With rolling settings, one matrix per sliding window is added, computed
+ * on the missing-data-treated series of all observations.
+ */
+export const analyzeVariables = (
+  data: VariableData[],
+  options: AnalysisOptions,
+  onProgress?: ProgressCallback
+): Matrix => {
+  const { groupBy, rolling } = options;
+  if (!groupBy && !rolling) return analyzeSubset(data, options, onProgress);
+
+  const groups = groupBy ? splitGroups(groupBy.labels) : [];
+  const windowCount = rolling ? getWindowRanges(data[0]?.values.length ?? 0, rolling.window, rolling.step).length : 0;
+  const runs = 1 + groups.length + windowCount;
+  // Every run has the same number of pairs, so progress adds up across runs.
+  // A block of runs reports its own combined total, split back per run here.
+  const blockProgress = (firstRun: number, blockRuns: number): ProgressCallback | undefined => onProgress &&
+    ((completed, total) => {
+      const perRun = total / blockRuns;
+      onProgress(firstRun * perRun + completed, runs * perRun);
+    });
+
+  const result = analyzeSubset(data, options, blockProgress(0, 1));
+
+  if (groupBy) {
+    const matrixGroups = groups.map(({ name, rowIndices }, g) => {
+      const subset = data.map(v => ({ name: v.name, values: rowIndices.map(i => v.values[i]) }));
+      return {
+        name,
+        size: rowIndices.length,
+        isSmall: rowIndices.length < groupBy.minGroupSize,
+        rowIndices,
+        matrix: analyzeSubset(subset, options, blockProgress(g + 1, 1)),
+      };
+    });
+    result.groupBy = { column: groupBy.column, minGroupSize: groupBy.minGroupSize, groups: matrixGroups };
+  }
+
+  if (rolling) {
+    const { variables } = applyMissingDataStrategy(data, options.missingData);
+    const { orderLabels, ...settings } = rolling;
+    const windows = generateRollingCorrelations(variables, options.method, rolling, blockProgress(1 + groups.length, windowCount));
+    result.rolling = { ...settings, windows };
+  }
+
+  return result;
+};
+
+/**
+ * One-vs-all pipeline: missing-data handling followed by the correlation of
+ * `options.target` with every other variable. Control variables, lags,
+ * groups and windows do not apply here.
+ */
+export const analyzeTarget = (
+  data: VariableData[],
+  options: AnalysisOptions,
+  onProgress?: ProgressCallback
+): TargetAnalysis => {
+  const { variables, summary } = applyMissingDataStrategy(data, options.missingData);
+  const target = variables.find(v => v.name === options.target);
+  if (!target) throw new Error(`找不到目標變數：${options.target}`);
+
+  const candidates = variables.filter(v => v !== target);
+  return {
+    target: target.name,
+    method: options.method,
+    results: generateTargetCorrelations(target, candidates, options.method, onProgress),
+    missingData: summary,
+    rowFilter: options.rowFilter,
+  };
+};
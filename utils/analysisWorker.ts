@@ -0,0 +1,44 @@
+import { AnalysisOptions, AnalysisProgress, AnalysisResult, AnalysisWorkerResponse, VariableData } from '../types';
+
+export interface RunningAnalysis {
+  result: Promise<AnalysisResult>;
+  /** Stops the worker; the result promise never settles afterwards */
+  cancel: () => void;
+}
+
+/**
+ * Runs the analysis pipeline in a dedicated Web Worker so the page stays
+ * responsive. Each run gets its own worker, which is terminated when the
+ * run finishes or is cancelled.
+ */
+export const startAnalysis = (
+  variables: VariableData[],
+  options: AnalysisOptions,
+  onProgress: (progress: AnalysisProgress) => void
+): RunningAnalysis => {
+  const worker = new Worker(new URL('../workers/analysis.worker.ts', import.meta.url), { type: 'module' });
+
+  const result = new Promise<AnalysisResult>((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'result') {
+        resolve(message.result);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || '計算時發生錯誤'));
+    };
+  });
+
+  worker.postMessage({ variables, options });
+
+  return { result, cancel: () => worker.terminate() };
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { Matrix } from '../types';
+import { generateCorrelationMatrix } from './statistics';
+import { listComparisonSources, sourcesOverlap } from './comparison';
+
+const makeMatrix = (offset: number): Matrix => generateCorrelationMatrix([
+  { name: 'a', values: [1, 2, 3, 4, 5] },
+  { name: 'b', values: [2, 1, 4 + offset, 3, 5] },
+]);
+
+describe('sourcesOverlap', () => {
+  it('flags the same matrix saved twice and a group against its own overall matrix', () => {
+    const overall = makeMatrix(0);
+    overall.groupBy = {
+      column: '地區',
+      minGroupSize: 2,
+      groups: [{ name: 'North', size: 3, isSmall: false, rowIndices: [0, 1, 2], matrix: makeMatrix(1) }],
+    };
+    const [current, currentGroup] = listComparisonSources([{ id: 0, label: '目前結果', matrix: overall }]);
+    const [snapshot, snapshotGroup, other] = listComparisonSources([
+      { id: 1, label: '快照', matrix: overall },
+      { id: 2, label: '其他', matrix: makeMatrix(2) },
+    ]);
+
+    expect(sourcesOverlap(current, snapshot)).toBe(true);
+    expect(sourcesOverlap(currentGroup, snapshotGroup)).toBe(true);
+    expect(sourcesOverlap(snapshot, snapshotGroup)).toBe(true);
+    expect(sourcesOverlap(snapshot, other)).toBe(false);
+    expect(sourcesOverlap(snapshotGroup, other)).toBe(false);
+  });
+});
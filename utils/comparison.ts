@@ -0,0 +1,130 @@
+import { CorrelationDifference, CorrelationMethod, Matrix, MatrixDifference, MatrixSnapshot } from '../types';
+import { fisherStandardError, getPairKey, normalTwoSidedPValue } from './statistics';
+
+export interface ComparisonSource {
+  key: string;
+  label: string;
+  matrix: Matrix;
+  parentKey?: string; // Set on a group matrix: the overall matrix its observations belong to
+}
+
+// atanh(±1) is infinite; perfect correlations are pulled in just enough to stay finite
+const MAX_ABS_R = 1 - 1e-12;
+
+/**
+ * Fisher's z test for the difference between two correlations from
+ * independent samples: z = (atanh r1 - atanh r2) / sqrt(SE1² + SE2²).
+ * Each side uses the standard error of its own method and effective N.
+ * Returns null when either sample is too small.
+ */
+export const compareIndependentCorrelations = (
+  r1: number,
+  n1: number,
+  r2: number,
+  n2: number,
+  method1: CorrelationMethod = 'pearson',
+  method2: CorrelationMethod = method1
+): { z: number; pValue: number } | null => {
+  const se1 = fisherStandardError(n1, method1);
+  const se2 = fisherStandardError(n2, method2);
+  if (se1 === null || se2 === null) return null;
+
+  const clamp = (r: number) => Math.max(-MAX_ABS_R, Math.min(MAX_ABS_R, r));
+  const z = (Math.atanh(clamp(r1)) - Math.atanh(clamp(r2))) / Math.sqrt(se1 * se1 + se2 * se2);
+  return { z, pValue: normalTwoSidedPValue(z) };
+};
+
+// Every variable of a matrix, rows first, each listed once
+const listVariables = (matrix: Matrix): string[] =>
+  Array.from(new Set([...matrix.rowVariables, ...matrix.columnVariables]));
+
+// Position of each variable pair, in either orientation
+const indexCells = (matrix: Matrix): Map<string, [number, number]> => {
+  const cells = new Map<string, [number, number]>();
+  matrix.rowVariables.forEach((rowVar, i) => {
+    matrix.columnVariables.forEach((colVar, j) => {
+      const key = getPairKey(rowVar, colVar);
+      if (rowVar !== colVar && !cells.has(key)) cells.set(key, [i, j]);
+    });
+  });
+  return cells;
+};
+
+/**
+ * Compares two matrices over the variables they share. Pairs are matched
+ * by name, so square and rectangular matrices can be mixed; a pair missing
+ * from either matrix stays empty and is not listed.
+ * Partial correlations lose one degree of freedom per control variable,
+ * as in getCorrelationResult.
+ */
+export const compareMatrices = (a: Matrix, b: Matrix): MatrixDifference => {
+  const bVariables = new Set(listVariables(b));
+  const shared = listVariables(a).filter(name => bVariables.has(name));
+  const cellsA = indexCells(a);
+  const cellsB = indexCells(b);
+
+  const controlsA = a.controlVariables?.length ?? 0;
+  const controlsB = b.controlVariables?.length ?? 0;
+  const size = shared.length;
+  const grid: (number | null)[][] = Array.from({ length: size }, () => Array(size).fill(null));
+  const pValues: (number | null)[][] = Array.from({ length: size }, () => Array(size).fill(null));
+  const pairs: CorrelationDifference[] = [];
+
+  for (let i = 0; i < size; i++) {
+    for (let j = i + 1; j < size; j++) {
+      const key = getPairKey(shared[i], shared[j]);
+      const cellA = cellsA.get(key);
+      const cellB = cellsB.get(key);
+      if (!cellA || !cellB) continue;
+
+      const r1 = a.grid[cellA[0]][cellA[1]];
+      const r2 = b.grid[cellB[0]][cellB[1]];
+      const n1 = a.sampleSizes[cellA[0]][cellA[1]];
+      const n2 = b.sampleSizes[cellB[0]][cellB[1]];
+
+      const difference = r1 !== null && r2 !== null ? r1 - r2 : null;
+      const test = r1 !== null && r2 !== null
+        ? compareIndependentCorrelations(r1, n1 - controlsA, r2, n2 - controlsB, a.method, b.method)
+        : null;
+
+      grid[i][j] = grid[j][i] = difference;
+      pValues[i][j] = pValues[j][i] = test?.pValue ?? null;
+      pairs.push({
+        var1: shared[i],
+        var2: shared[j],
+        r1,
+        r2,
+        n1,
+        n2,
+        difference,
+        z: test?.z ?? null,
+        pValue: test?.pValue ?? null,
+      });
+    }
+  }
+
+  return { variables: shared, grid, pValues, pairs };
+};
+
+/**
+ * Two sources share observations when they are the same matrix (e.g. the
+ * current result and its own snapshot) or one is a group of the other, so
+ * the independent-samples test does not apply to that combination.
+ */
+export const sourcesOverlap = (a: ComparisonSource, b: ComparisonSource): boolean =>
+  a.matrix === b.matrix || a.parentKey === b.key || b.parentKey === a.key;
+
+/**
+ * Lists every matrix that can be compared: each snapshot's overall matrix
+ * followed by its group matrices, if it was analyzed with a group-by column.
+ */
+export const listComparisonSources = (snapshots: MatrixSnapshot[]): ComparisonSource[] =>
+  snapshots.flatMap(snapshot => [
+    { key: `${snapshot.id}`, label: snapshot.label, matrix: snapshot.matrix },
+    ...(snapshot.matrix.groupBy?.groups.map((group, g) => ({
+      key: `${snapshot.id}:${g}`,
+      label: `${snapshot.label} · ${snapshot.matrix.groupBy!.column} = ${group.name}`,
+      matrix: group.matrix,
+      parentKey: `${snapshot.id}`,
+    })) ?? []),
+  ]);
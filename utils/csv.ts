@@ -0,0 +1,213 @@
+import { CsvDelimiter, CsvEncoding, CsvImportOptions, CsvQuote } from '../types';
+
+export const CSV_ENCODING_LABELS: Record<CsvEncoding, string> = {
+  'utf-8': 'UTF-8',
+  big5: 'Big5 (繁體中文)',
+  gbk: 'GBK (简体中文)',
+  shift_jis: 'Shift-JIS (日本語)',
+};
+
+export const CSV_DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ',': '逗號 ,',
+  ';': '分號 ;',
+  '\t': 'Tab',
+  '|': '直線 |',
+};
+
+export const CSV_QUOTE_LABELS: Record<CsvQuote, string> = {
+  '"': '雙引號 "',
+  "'": "單引號 '",
+  none: '無',
+};
+
+const LEGACY_ENCODINGS: CsvEncoding[] = ['big5', 'gbk', 'shift_jis'];
+const DELIMITERS = Object.keys(CSV_DELIMITER_LABELS) as CsvDelimiter[];
+
+// Frequent characters in Chinese business data, in both scripts. Text decoded
+// with the wrong legacy encoding still lands in the CJK block but rarely on these.
+const COMMON_CJK = new Set(
+  '的一是不了在人有我他這个個們们中來来上大為为和國国地到以說说時时要就出會会可也對对生能' +
+  '年月日期週周星名稱称號号編编碼码金額额營营收銷销售量價价格數数值總总計计合平均' +
+  '產产品客戶户地區区部門门成本利潤润率費费用入支出元單单位溫温度高低新舊旧東东西南北'
+);
+const KANA = /[ぁ-ヿ]/;
+
+// Bytes sampled for detection and for the live preview
+const SAMPLE_BYTES = 64 * 1024;
+const SAMPLE_LINES = 20;
+const PLAIN_NUMBER = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?$/i;
+
+const hasUtf8Bom = (bytes: Uint8Array) =>
+  bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf;
+
+const scoreDecodedText = (text: string): number => {
+  let score = 0;
+  for (const ch of text) {
+    if (ch === '�') score -= 10;
+    else if (COMMON_CJK.has(ch) || KANA.test(ch)) score += 1;
+  }
+  return score;
+};
+
+/**
+ * Guesses the text encoding. A BOM or valid UTF-8 wins outright; otherwise
+ * each legacy encoding is tried and scored by decoding errors and how many
+ * common CJK characters come out.
+ */
+export const detectEncoding = (bytes: Uint8Array): CsvEncoding => {
+  if (hasUtf8Bom(bytes)) return 'utf-8';
+  const sample = bytes.subarray(0, SAMPLE_BYTES);
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample);
+    return 'utf-8';
+  } catch {
+    // Sample may end mid-character; only fall through on real errors
+    const valid = new TextDecoder('utf-8').decode(sample);
+    if (valid.slice(0, -1).indexOf('�') === -1) return 'utf-8';
+  }
+
+  let best: CsvEncoding = 'utf-8';
+  let bestScore = -Infinity;
+  LEGACY_ENCODINGS.forEach(encoding => {
+    const score = scoreDecodedText(new TextDecoder(encoding).decode(sample));
+    if (score > bestScore) {
+      best = encoding;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/**
+ * Decodes file bytes to text, dropping a UTF-8 BOM.
+ */
+export const decodeCsv = (bytes: Uint8Array, encoding: CsvEncoding): string => {
+  const text = new TextDecoder(encoding).decode(bytes);
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+};
+
+/**
+ * Picks the quote character that appears at field boundaries most often.
+ */
+export const detectQuote = (text: string): CsvQuote => {
+  const sample = text.slice(0, SAMPLE_BYTES);
+  const count = (quote: string) => {
+    const escaped = quote === '"' ? '"' : "'";
+    return (sample.match(new RegExp(`(?:^|[,;\\t|])${escaped}|${escaped}(?:[,;\\t|]|\\r?$)`, 'gm')) ?? []).length;
+  };
+  const doubles = count('"');
+  const singles = count("'");
+  if (doubles === 0 && singles === 0) return '"';
+  return singles > doubles ? "'" : '"';
+};
+
+/**
+ * Picks the delimiter that splits the first lines into the same number
+ * (greater than one) of fields most consistently.
+ */
+export const detectDelimiter = (text: string, quote: CsvQuote): CsvDelimiter => {
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+
+  DELIMITERS.forEach(delimiter => {
+    const rows = parseCsv(text.slice(0, SAMPLE_BYTES), { encoding: 'utf-8', delimiter, quote }, SAMPLE_LINES);
+    const counts = new Map<number, number>();
+    rows.forEach(row => counts.set(row.length, (counts.get(row.length) ?? 0) + 1));
+
+    counts.forEach((lines, fields) => {
+      if (fields < 2) return;
+      // Consistent lines first, wider splits break ties
+      const score = lines * 1000 + fields;
+      if (score > bestScore) {
+        best = delimiter;
+        bestScore = score;
+      }
+    });
+  });
+  return best;
+};
+
+export const detectCsvOptions = (bytes: Uint8Array): CsvImportOptions => {
+  const encoding = detectEncoding(bytes);
+  const text = decodeCsv(bytes.subarray(0, SAMPLE_BYTES), encoding);
+  const quote = detectQuote(text);
+  return { encoding, delimiter: detectDelimiter(text, quote), quote };
+};
+
+const toCell = (field: string, quoted: boolean): any => {
+  if (!quoted && field.trim() === '') return null;
+  // Plain numbers become numbers like a spreadsheet would read them;
+  // formatted ones ("1,234", "NT$5") are left to utils/numberParsing
+  if (!quoted && PLAIN_NUMBER.test(field.trim())) return Number(field.trim());
+  return field;
+};
+
+/**
+ * Splits CSV text into rows of cells (RFC 4180 quoting: doubled quotes
+ * escape, quoted fields may contain delimiters and line breaks). Empty
+ * cells are null and plain numbers are converted. Stops after maxRows
+ * rows when given.
+ */
+export const parseCsv = (text: string, options: CsvImportOptions, maxRows = Infinity): any[][] => {
+  const { delimiter } = options;
+  const quote = options.quote === 'none' ? null : options.quote;
+  const rows: any[][] = [];
+  let row: any[] = [];
+  let field = '';
+  let quoted = false;
+  let inQuotes = false;
+  let i = 0;
+
+  const endField = () => {
+    row.push(toCell(field, quoted));
+    field = '';
+    quoted = false;
+  };
+  const endRow = () => {
+    endField();
+    // Skip blank lines
+    if (row.length > 1 || row[0] !== null) rows.push(row);
+    row = [];
+  };
+
+  while (i < text.length && rows.length < maxRows) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === quote) {
+        if (text[i + 1] === quote) {
+          field += quote;
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === quote && field.trim() === '') {
+      inQuotes = true;
+      quoted = true;
+      field = '';
+    } else if (ch === delimiter) {
+      endField();
+    } else if (ch === '\n' || ch === '\r') {
+      endRow();
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+    } else {
+      field += ch;
+    }
+    i++;
+  }
+
+  if (rows.length < maxRows && (field !== '' || quoted || row.length > 0)) endRow();
+  return rows;
+};
+
+/**
+ * Decodes and parses a whole file with the chosen options.
+ */
+export const readCsv = (bytes: Uint8Array, options: CsvImportOptions, maxRows = Infinity): any[][] =>
+  parseCsv(decodeCsv(maxRows === Infinity ? bytes : bytes.subarray(0, SAMPLE_BYTES), options.encoding), options, maxRows);
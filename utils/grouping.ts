@@ -0,0 +1,32 @@
+import { GroupSummary } from '../types';
+
+// More categories than this usually means a continuous column was picked
+export const MAX_GROUPS = 50;
+
+export const EMPTY_GROUP_LABEL = '(空白)';
+
+export const getGroupLabel = (cell: unknown): string => {
+  const text = cell === null || cell === undefined ? '' : String(cell).trim();
+  return text === '' ? EMPTY_GROUP_LABEL : text;
+};
+
+/**
+ * Collects the observation indices of each group, sorted by group name
+ * (numeric-aware, so "Tier 2" comes before "Tier 10").
+ */
+export const splitGroups = (labels: string[]): { name: string; rowIndices: number[] }[] => {
+  const byName = new Map<string, number[]>();
+  labels.forEach((label, i) => {
+    const indices = byName.get(label);
+    if (indices) indices.push(i); else byName.set(label, [i]);
+  });
+  return Array.from(byName, ([name, rowIndices]) => ({ name, rowIndices }))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+};
+
+export const summarizeGroups = (labels: string[], minGroupSize: number): GroupSummary[] =>
+  splitGroups(labels).map(({ name, rowIndices }) => ({
+    name,
+    size: rowIndices.length,
+    isSmall: rowIndices.length < minGroupSize,
+  }));
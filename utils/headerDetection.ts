@@ -0,0 +1,109 @@
+import * as XLSX from 'xlsx';
+import { HeaderLayout } from '../types';
+import { isNumericCell } from './numberParsing';
+
+export const MAX_HEADER_ROWS = 3;
+
+// Rows scanned when guessing the layout
+const SCAN_ROWS = 50;
+const TRAILING_NOTE = /^(?:合計|總計|总计|小計|小计|總和|平均|備註|备注|註|注|說明|资料来源|資料來源|來源|total|sum|subtotal|average|note|source|\*)/i;
+
+const isFilled = (cell: unknown) => cell !== null && cell !== undefined && String(cell).trim() !== '';
+
+const describeRow = (row: any[] = []) => {
+  let filled = 0;
+  let numeric = 0;
+  row.forEach(cell => {
+    if (!isFilled(cell)) return;
+    filled++;
+    if (isNumericCell(cell)) numeric++;
+  });
+  return { filled, numeric, text: filled - numeric };
+};
+
+/**
+ * Suggests where the header sits. Leading title rows are sparser than the
+ * table itself; header rows are mostly text while data rows are mostly
+ * numbers; a second header row is only taken when the row above has gaps
+ * (merged group cells like "營收" spanning "週一 / 週二"). Trailing blank,
+ * total and note rows are skipped.
+ */
+export const detectHeaderLayout = (rows: any[][]): HeaderLayout => {
+  const scanned = rows.slice(0, SCAN_ROWS).map(describeRow);
+  const tableWidth = Math.max(0, ...scanned.map(r => r.filled));
+  const minFilled = Math.max(2, Math.ceil(tableWidth / 2));
+
+  let headerRowIndex = scanned.findIndex(r => r.filled >= minFilled);
+  if (headerRowIndex < 0) headerRowIndex = 0;
+
+  let headerRowCount = 0;
+  while (
+    headerRowCount < MAX_HEADER_ROWS &&
+    headerRowIndex + headerRowCount + 1 < rows.length
+  ) {
+    const row = describeRow(rows[headerRowIndex + headerRowCount]);
+    const isTextRow = row.text > 0 && row.text >= row.numeric;
+    if (!isTextRow) break;
+    if (headerRowCount > 0) {
+      const above = describeRow(rows[headerRowIndex + headerRowCount - 1]);
+      if (above.filled >= tableWidth) break;
+    }
+    headerRowCount++;
+  }
+
+  const dataStart = headerRowIndex + headerRowCount;
+  let skipTrailingRows = 0;
+  // Always leave at least two data rows
+  while (rows.length - skipTrailingRows - 1 > dataStart + 1) {
+    const row = rows[rows.length - skipTrailingRows - 1] ?? [];
+    const { filled } = describeRow(row);
+    const firstText = row.find(cell => isFilled(cell) && !isNumericCell(cell));
+    const isNote = firstText !== undefined && TRAILING_NOTE.test(String(firstText).trim());
+    const isSparseText = firstText !== undefined && filled < minFilled;
+    if (filled > 0 && !isNote && !isSparseText) break;
+    skipTrailingRows++;
+  }
+
+  return { headerRowIndex, headerRowCount, skipTrailingRows };
+};
+
+/**
+ * Splits raw rows into column names and data rows. Multi-row headers are
+ * joined top to bottom ("營收 / 週一"); gaps in upper header rows take the
+ * value to their left, since merged cells only keep their first cell.
+ */
+export const applyHeaderLayout = (rows: any[][], layout: HeaderLayout): { headers: string[]; dataRows: any[][] } => {
+  const start = Math.min(Math.max(0, layout.headerRowIndex), rows.length);
+  const headerRows = rows.slice(start, start + layout.headerRowCount);
+  const dataRows = rows.slice(start + headerRows.length, Math.max(start + headerRows.length, rows.length - layout.skipTrailingRows));
+  // Loop rather than spread: sheets can have more rows than the engine's argument limit
+  let width = 0;
+  headerRows.concat(dataRows).forEach(r => { width = Math.max(width, r.length); });
+
+  if (headerRows.length === 0) {
+    return {
+      headers: Array.from({ length: width }, (_, i) => `欄位 ${XLSX.utils.encode_col(i)}`),
+      dataRows
+    };
+  }
+
+  const filledHeaderRows = headerRows.map((row, level) => {
+    const isLastLevel = level === headerRows.length - 1;
+    let carried = '';
+    return Array.from({ length: width }, (_, c) => {
+      const text = isFilled(row[c]) ? String(row[c]).trim() : '';
+      if (text !== '') carried = text;
+      return text !== '' || isLastLevel ? text : carried;
+    });
+  });
+
+  const headers = Array.from({ length: width }, (_, c) => {
+    const parts: string[] = [];
+    filledHeaderRows.forEach(row => {
+      if (row[c] !== '' && parts[parts.length - 1] !== row[c]) parts.push(row[c]);
+    });
+    return parts.join(' / ');
+  });
+
+  return { headers, dataRows };
+};
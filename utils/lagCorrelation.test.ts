@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { sortRowIndicesByOrder } from './lagCorrelation';
+
+const sortColumn = (cells: unknown[]) => {
+  const rows = cells.map(cell => [cell]);
+  return sortRowIndicesByOrder(rows, rows.map((_, i) => i), 0).map(i => cells[i]);
+};
+
+describe('sortRowIndicesByOrder', () => {
+  it('sorts numeric text as numbers', () => {
+    const keys = ['100', '50', '13', '20', '1', '2', '3', '10', '11', '12', '32'];
+    expect(sortColumn(keys)).toEqual(['1', '2', '3', '10', '11', '12', '13', '20', '32', '50', '100']);
+  });
+
+  it('puts Excel date serials and text dates on one scale', () => {
+    // 45296 = 2024-01-05, 45298 = 2024-01-07
+    expect(sortColumn([45298, '2024/1/6', 45296, '2024-01-08'])).toEqual([45296, '2024/1/6', 45298, '2024-01-08']);
+  });
+
+  it('keeps rows without a usable key at the end in their original order', () => {
+    expect(sortColumn(['b', 3, null, 1, 'a'])).toEqual([1, 3, 'b', null, 'a']);
+  });
+});
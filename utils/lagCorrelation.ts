@@ -0,0 +1,152 @@
+import { CorrelationMethod, CrossCorrelationPoint, LagSettings, Matrix, UndefinedCorrelationReason, VariableData } from '../types';
+import { correlatePair, ProgressCallback } from './statistics';
+import { toDayNumber } from './rowFilter';
+
+const NUMERIC_TEXT = /^[-+]?\d+(?:\.\d+)?$/;
+
+/** Numbers and numeric text ("numbers stored as text", quoted CSV indices). */
+const toOrderNumber = (cell: unknown): number => {
+  if (typeof cell === 'number') return cell;
+  const text = typeof cell === 'string' ? cell.trim() : '';
+  return NUMERIC_TEXT.test(text) ? Number(text) : NaN;
+};
+
+/**
+ * Sort key of an ordering cell: numbers as they are, text dates as day
+ * numbers. When the column holds any date text, numbers are read as Excel
+ * date serials so both kinds of date share one scale. NaN when the cell
+ * cannot be ordered.
+ */
+const getOrderKey = (cell: unknown, datesInText: boolean): number => {
+  const number = toOrderNumber(cell);
+  if (!Number.isNaN(number)) return datesInText ? toDayNumber(number) : number;
+  return toDayNumber(cell);
+};
+
+/**
+ * Sorts row indices by the ordering column so that consecutive
+ * observations are consecutive in time. Rows without a usable key keep
+ * their relative order at the end.
+ */
+export const sortRowIndicesByOrder = (rows: any[][], indices: number[], column: number): number[] => {
+  const cells = indices.map(i => rows[i]?.[column]);
+  const datesInText = cells.some(cell => Number.isNaN(toOrderNumber(cell)) && !Number.isNaN(toDayNumber(cell)));
+  const keys = new Map(indices.map((i, k) => [i, getOrderKey(cells[k], datesInText)]));
+  return [...indices].sort((a, b) => {
+    const ka = keys.get(a)!;
+    const kb = keys.get(b)!;
+    if (Number.isNaN(ka) || Number.isNaN(kb)) return Number(Number.isNaN(ka)) - Number(Number.isNaN(kb));
+    return ka - kb;
+  });
+};
+
+/**
+ * Aligns x[t] with y[t + lag]. A positive lag pairs x with later values
+ * of y, i.e. x leads y by `lag` rows.
+ */
+const shiftPair = (x: number[], y: number[], lag: number): [number[], number[]] => {
+  const length = Math.min(x.length, y.length);
+  return lag >= 0
+    ? [x.slice(0, Math.max(0, length - lag)), y.slice(lag, length)]
+    : [x.slice(-lag, length), y.slice(0, Math.max(0, length + lag))];
+};
+
+/**
+ * Correlation of x[t] with y[t + lag] for every lag in [minLag, maxLag].
+ */
+export const crossCorrelation = (
+  x: number[],
+  y: number[],
+  minLag: number,
+  maxLag: number,
+  method: CorrelationMethod
+): CrossCorrelationPoint[] => {
+  const points: CrossCorrelationPoint[] = [];
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const [xs, ys] = shiftPair(x, y, lag);
+    const { coefficient, pValue, n } = correlatePair(xs, ys, method);
+    points.push({ lag, coefficient, pValue, n });
+  }
+  return points;
+};
+
+/**
+ * Picks the lag with the largest |r|; ties go to the lag closest to zero.
+ */
+export const findPeakLag = (points: CrossCorrelationPoint[]): CrossCorrelationPoint | null => {
+  let best: CrossCorrelationPoint | null = null;
+  points.forEach(point => {
+    if (point.coefficient === null) return;
+    if (
+      best === null ||
+      Math.abs(point.coefficient) > Math.abs(best.coefficient!) ||
+      (Math.abs(point.coefficient) === Math.abs(best.coefficient!) && Math.abs(point.lag) < Math.abs(best.lag))
+    ) {
+      best = point;
+    }
+  });
+  return best;
+};
+
+/**
+ * Generates a matrix of peak cross-correlations. Cell (i, j) holds the
+ * strongest correlation of variable i with variable j shifted by the best
+ * lag; cell (j, i) holds the same value at the opposite lag. Because the
+ * peak is picked from several lags, its p-value is Bonferroni-adjusted for
+ * the number of lags tried.
+ */
+export const generateLaggedCorrelationMatrix = (
+  data: VariableData[],
+  method: CorrelationMethod,
+  settings: LagSettings,
+  onProgress?: ProgressCallback
+): Matrix => {
+  const { minLag, maxLag } = settings;
+  const variables = data.map(d => d.name);
+  const n = variables.length;
+  const lagCount = maxLag - minLag + 1;
+  const grid: (number | null)[][] = Array(n).fill(null).map(() => Array(n).fill(null));
+  const pValues: (number | null)[][] = Array(n).fill(null).map(() => Array(n).fill(null));
+  const sampleSizes: number[][] = Array(n).fill(null).map(() => Array(n).fill(0));
+  const undefinedReasons: (UndefinedCorrelationReason | null)[][] = Array(n).fill(null).map(() => Array(n).fill(null));
+  const bestLags: (number | null)[][] = Array(n).fill(null).map(() => Array(n).fill(null));
+  const totalPairs = (n * (n - 1)) / 2;
+  let completedPairs = 0;
+
+  for (let i = 0; i < n; i++) {
+    grid[i][i] = 1; // Self correlation peaks at lag 0
+    bestLags[i][i] = 0;
+    sampleSizes[i][i] = data[i].values.filter(v => Number.isFinite(v)).length;
+
+    for (let j = i + 1; j < n; j++) {
+      const points = crossCorrelation(data[i].values, data[j].values, minLag, maxLag, method);
+      const peak = findPeakLag(points);
+      if (peak) {
+        grid[i][j] = grid[j][i] = peak.coefficient;
+        pValues[i][j] = pValues[j][i] = peak.pValue === null ? null : Math.min(1, peak.pValue * lagCount);
+        sampleSizes[i][j] = sampleSizes[j][i] = peak.n;
+        bestLags[i][j] = peak.lag;
+        bestLags[j][i] = -peak.lag;
+      } else {
+        // No lag gives a defined correlation; report the zero-lag (or widest) overlap
+        const fallback = points.find(p => p.lag === 0) ?? points[0];
+        const pairCount = fallback?.n ?? 0;
+        sampleSizes[i][j] = sampleSizes[j][i] = pairCount;
+        undefinedReasons[i][j] = undefinedReasons[j][i] = pairCount < 2 ? 'insufficientPairs' : 'constantSeries';
+      }
+      completedPairs++;
+    }
+    onProgress?.(completedPairs, totalPairs);
+  }
+
+  return {
+    rowVariables: variables,
+    columnVariables: variables,
+    grid,
+    pValues,
+    sampleSizes,
+    undefinedReasons,
+    method,
+    lag: { ...settings, bestLags },
+  };
+};
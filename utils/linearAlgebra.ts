@@ -0,0 +1,89 @@
+// Pivots smaller than this are treated as zero when inverting
+const SINGULAR_TOLERANCE = 1e-10;
+
+/**
+ * Inverts a square matrix with Gauss-Jordan elimination and partial pivoting.
+ * Returns null when the matrix is singular (or numerically close to it).
+ */
+export const invertMatrix = (matrix: number[][]): number[][] | null => {
+  const n = matrix.length;
+  // Augment [A | I]
+  const a = matrix.map((row, i) => [...row, ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))]);
+
+  for (let col = 0; col < n; col++) {
+    let pivotRow = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivotRow][col])) pivotRow = r;
+    }
+    if (Math.abs(a[pivotRow][col]) < SINGULAR_TOLERANCE) return null;
+    [a[col], a[pivotRow]] = [a[pivotRow], a[col]];
+
+    const pivot = a[col][col];
+    for (let c = 0; c < 2 * n; c++) a[col][c] /= pivot;
+
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = a[r][col];
+      if (factor === 0) continue;
+      for (let c = 0; c < 2 * n; c++) a[r][c] -= factor * a[col][c];
+    }
+  }
+
+  return a.map(row => row.slice(n));
+};
+
+/**
+ * Eigen decomposition of a symmetric matrix with the cyclic Jacobi method.
+ * Returns eigenvalues in descending order with their eigenvectors
+ * (vectors[k] is the unit eigenvector for values[k]).
+ */
+export const symmetricEigen = (matrix: number[][]): { values: number[]; vectors: number[][] } => {
+  const MAX_SWEEPS = 100;
+  const n = matrix.length;
+  const a = matrix.map(row => [...row]);
+  const v: number[][] = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+
+  for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) offDiagonal += a[p][q] * a[p][q];
+    }
+    if (offDiagonal < 1e-20) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) continue;
+        // Rotation angle that zeroes a[p][q]
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  const order = a.map((_, i) => i).sort((i, j) => a[j][j] - a[i][i]);
+  return {
+    values: order.map(i => a[i][i]),
+    vectors: order.map(i => v.map(row => row[i])),
+  };
+};
@@ -0,0 +1,97 @@
+import { MissingDataStrategy, MissingDataSummary, VariableData } from '../types';
+
+export const MISSING_DATA_STRATEGY_LABELS: Record<MissingDataStrategy, string> = {
+  pairwise: '成對刪除',
+  listwise: '完整列刪除',
+  mean: '平均數插補',
+  median: '中位數插補',
+  forwardFill: '前值填補 (時間序列)',
+};
+
+const isObserved = (v: number | undefined): v is number => v !== undefined && Number.isFinite(v);
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+/**
+ * Applies a missing-data strategy to a set of variables that share the same
+ * row positions. Rows are never removed, only blanked (NaN) or filled, so
+ * index i still refers to the same observation in every variable.
+ *
+ * rowsKept counts the rows the strategy actually uses:
+ * - pairwise: rows with at least 2 observed values (they enter at least one pair)
+ * - listwise: rows observed in every variable
+ * - imputation: rows complete after filling; rows with no observed value
+ *   are left empty rather than invented, and forward fill cannot fill
+ *   values before the first observation
+ */
+export const applyMissingDataStrategy = (
+  data: VariableData[],
+  strategy: MissingDataStrategy
+): { variables: VariableData[]; summary: MissingDataSummary } => {
+  const totalRows = Math.max(0, ...data.map(d => d.values.length));
+  const columns = data.map(d => Array.from({ length: totalRows }, (_, i) => {
+    const v = d.values[i];
+    return isObserved(v) ? v : NaN;
+  }));
+
+  const observedInRow = (i: number) => columns.reduce((count, col) => count + (isObserved(col[i]) ? 1 : 0), 0);
+  let imputedCells = 0;
+
+  if (strategy === 'listwise') {
+    for (let i = 0; i < totalRows; i++) {
+      if (observedInRow(i) < columns.length) {
+        columns.forEach(col => { col[i] = NaN; });
+      }
+    }
+  } else if (strategy === 'mean' || strategy === 'median' || strategy === 'forwardFill') {
+    const emptyRows = new Set<number>();
+    for (let i = 0; i < totalRows; i++) {
+      if (observedInRow(i) === 0) emptyRows.add(i);
+    }
+
+    columns.forEach(col => {
+      const observed = col.filter(isObserved);
+      if (observed.length === 0) return;
+
+      if (strategy === 'forwardFill') {
+        let last = NaN;
+        for (let i = 0; i < totalRows; i++) {
+          if (isObserved(col[i])) {
+            last = col[i];
+          } else if (!emptyRows.has(i) && isObserved(last)) {
+            col[i] = last;
+            imputedCells++;
+          }
+        }
+        return;
+      }
+
+      const fill = strategy === 'mean'
+        ? observed.reduce((a, b) => a + b, 0) / observed.length
+        : median(observed);
+      for (let i = 0; i < totalRows; i++) {
+        if (!isObserved(col[i]) && !emptyRows.has(i)) {
+          col[i] = fill;
+          imputedCells++;
+        }
+      }
+    });
+  }
+
+  let rowsKept = 0;
+  for (let i = 0; i < totalRows; i++) {
+    const observed = observedInRow(i);
+    if (strategy === 'pairwise' ? observed >= 2 : observed === columns.length) {
+      rowsKept++;
+    }
+  }
+
+  return {
+    variables: data.map((d, idx) => ({ ...d, values: columns[idx] })),
+    summary: { strategy, totalRows, rowsKept, imputedCells },
+  };
+};
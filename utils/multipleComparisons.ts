@@ -0,0 +1,86 @@
+import { PValueAdjustment } from '../types';
+import { getPairKey } from './statistics';
+
+export const P_VALUE_ADJUSTMENT_LABELS: Record<PValueAdjustment, string> = {
+  none: '不校正',
+  bonferroni: 'Bonferroni',
+  holm: 'Holm',
+  bh: 'Benjamini–Hochberg (FDR)',
+};
+
+/**
+ * Adjusts a family of p-values for multiple comparisons.
+ * - Bonferroni: p * m
+ * - Holm: step-down Bonferroni, monotone in the sorted order
+ * - Benjamini–Hochberg: step-up false discovery rate control
+ * All adjusted values are capped at 1 and returned in the input order.
+ */
+export const adjustPValues = (pValues: number[], method: PValueAdjustment): number[] => {
+  const m = pValues.length;
+  if (method === 'none' || m === 0) return [...pValues];
+  if (method === 'bonferroni') return pValues.map(p => Math.min(1, p * m));
+
+  const order = pValues.map((_, i) => i).sort((a, b) => pValues[a] - pValues[b]);
+  const adjusted: number[] = new Array(m);
+
+  if (method === 'holm') {
+    let runningMax = 0;
+    order.forEach((idx, rank) => {
+      runningMax = Math.max(runningMax, Math.min(1, (m - rank) * pValues[idx]));
+      adjusted[idx] = runningMax;
+    });
+  } else {
+    let runningMin = 1;
+    for (let rank = m - 1; rank >= 0; rank--) {
+      const idx = order[rank];
+      runningMin = Math.min(runningMin, (m / (rank + 1)) * pValues[idx]);
+      adjusted[idx] = runningMin;
+    }
+  }
+
+  return adjusted;
+};
+
+/**
+ * Adjusts the p-values of a correlation matrix. The family is the set of
+ * unique variable pairs: mirrored cells (the two triangles of a square
+ * matrix, or a pair present in both sets of a rectangular one) count once
+ * and get the same adjusted value. Same-variable and untestable (null)
+ * cells are left out of the family and stay null.
+ */
+export const adjustMatrixPValues = (
+  pValues: (number | null)[][],
+  method: PValueAdjustment,
+  rowVariables: string[],
+  columnVariables: string[] = rowVariables
+): (number | null)[][] => {
+  const result = pValues.map(row => [...row]);
+  if (method === 'none') return result;
+
+  const cellsByPair = new Map<string, [number, number][]>();
+  const family: number[] = [];
+  const familyKeys: string[] = [];
+  rowVariables.forEach((rowVar, i) => {
+    columnVariables.forEach((colVar, j) => {
+      const p = pValues[i][j];
+      if (p === null || rowVar === colVar) return;
+      const key = getPairKey(rowVar, colVar);
+      const cells = cellsByPair.get(key);
+      if (cells) {
+        cells.push([i, j]);
+        return;
+      }
+      cellsByPair.set(key, [[i, j]]);
+      family.push(p);
+      familyKeys.push(key);
+    });
+  });
+
+  adjustPValues(family, method).forEach((p, k) => {
+    cellsByPair.get(familyKeys[k])!.forEach(([i, j]) => {
+      result[i][j] = p;
+    });
+  });
+
+  return result;
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { detectDecimalSeparator, parseNumericCell, parseNumericSeries } from './numberParsing';
+
+describe('parseNumericCell', () => {
+  it.each([
+    ['1,234,567', 1234567],
+    ['12.5%', 12.5],
+    ['(3,000)', -3000],
+    ['NT$5,000', 5000],
+    ['NT$-5,000', -5000],
+    ['500-', -500],
+    ['１２．５', 12.5],
+    ['（３００）', -300],
+    ['12 kg', 12],
+    ['30元', 30],
+    ['1.5e3', 1500],
+  ])('reads %s with a decimal point as %s', (cell, expected) => {
+    expect(parseNumericCell(cell, 'dot')).toBe(expected);
+  });
+
+  it('reads decimal commas', () => {
+    expect(parseNumericCell('1.234,56', 'comma')).toBe(1234.56);
+    expect(parseNumericCell('12,5', 'comma')).toBe(12.5);
+    // Under a decimal point, "1,5" is not a valid grouping and is rejected rather than read as 15
+    expect(parseNumericCell('1,5', 'dot')).toBeNaN();
+  });
+
+  it('converts percentages to fractions on request', () => {
+    expect(parseNumericCell('12.5%', 'dot', true)).toBe(0.125);
+  });
+
+  it.each([
+    ['3.5萬', 35000],
+    ['NT$1.2億', 120000000],
+    ['5千萬元', 50000000],
+    ['2百萬', 2000000],
+    ['1.1千', 1100],
+    ['1.5M', 1500000],
+    ['3K', 3000],
+    ['3k', 3000],
+    ['2B', 2000000000],
+    ['(1.5M)', -1500000],
+  ])('scales the magnitude suffix of %s to %s', (cell, expected) => {
+    expect(parseNumericCell(cell, 'dot')).toBe(expected);
+  });
+
+  it('leaves units that start like a magnitude alone', () => {
+    expect(parseNumericCell('3kg', 'dot')).toBe(3);
+    expect(parseNumericCell('5m', 'dot')).toBe(5);
+  });
+
+  it('rejects text that is not a number', () => {
+    expect(parseNumericCell('N/A', 'dot')).toBeNaN();
+    expect(parseNumericCell('', 'dot')).toBeNaN();
+    expect(parseNumericCell('abc', 'dot')).toBeNaN();
+  });
+});
+
+describe('detectDecimalSeparator', () => {
+  it('decides by the last separator or a non-grouping single one', () => {
+    expect(detectDecimalSeparator(['1.234,56', '7,5'])).toBe('comma');
+    expect(detectDecimalSeparator(['1,234.56', '7.5'])).toBe('dot');
+  });
+
+  it('defaults ambiguous columns to a decimal point', () => {
+    expect(detectDecimalSeparator(['1,234', '5,678', 12])).toBe('dot');
+  });
+});
+
+describe('parseNumericSeries', () => {
+  it('counts scaled magnitudes as converted', () => {
+    const { values, report } = parseNumericSeries('營收', ['3.5萬', 100, '', 'x'], { decimalSeparator: 'auto', percentAsFraction: false });
+    expect(values.slice(0, 2)).toEqual([35000, 100]);
+    expect(report).toMatchObject({ numeric: 1, converted: 1, empty: 1, rejected: 1 });
+  });
+});
@@ -0,0 +1,200 @@
+import { ColumnParseReport, DecimalSeparator, NumberFormatOptions } from '../types';
+
+export const DECIMAL_SEPARATOR_LABELS: Record<DecimalSeparator, string> = {
+  auto: '自動偵測',
+  dot: '1,234.56',
+  comma: '1.234,56',
+};
+
+export const DEFAULT_NUMBER_FORMAT: NumberFormatOptions = {
+  decimalSeparator: 'auto',
+  percentAsFraction: false,
+};
+
+const MAX_REJECTED_SAMPLES = 3;
+
+// Currency written before the amount: "$", "NT$", "US$", "€", "NTD ", "TWD" ...
+const CURRENCY_PREFIX = /^(?:[A-Za-z]{0,3}\$|[€£¥₩₹]|(?:NTD|TWD|USD|EUR|JPY|CNY|RMB|HKD|GBP)\s*)/i;
+// Unit or currency written after the amount: "kg", "元", "公斤", "km/h", "°C", "€"
+const UNIT_SUFFIX = /\s*[\p{L}°µ€£¥₩₹$][\p{L}°µ/²³·.]*$/u;
+const SCIENTIFIC = /^(?:\d+\.?\d*|\.\d+)e[+-]?\d+$/i;
+// Magnitude suffixes scale the amount rather than name a unit: "3K", "1.5M", "2B".
+// Only the bare letter counts, so "3kg" or "5m" stay units.
+const LATIN_MAGNITUDES = new Map([['k', 3], ['K', 3], ['M', 6], ['B', 9]]);
+// "3.5萬", "1.2億", "5千萬元", "2百萬": an optional 十/百/千 before 萬/億/兆, or 千 alone,
+// optionally followed by a currency word
+const CJK_MAGNITUDE = /^(?:([十百千]?)([萬万億亿兆])|(千))(?:元|圓|塊|块|美元|台幣|日圓|人民幣)?$/;
+const CJK_EXPONENTS: Record<string, number> = { 十: 1, 百: 2, 千: 3, 萬: 4, 万: 4, 億: 8, 亿: 8, 兆: 12 };
+
+type ResolvedSeparator = Exclude<DecimalSeparator, 'auto'>;
+
+/** Power of ten a trailing suffix scales by; 0 for plain units. */
+const getMagnitudeExponent = (suffix: string): number => {
+  const latin = LATIN_MAGNITUDES.get(suffix);
+  if (latin !== undefined) return latin;
+  const cjk = suffix.match(CJK_MAGNITUDE);
+  if (!cjk) return 0;
+  if (cjk[3]) return CJK_EXPONENTS[cjk[3]];
+  return (cjk[1] ? CJK_EXPONENTS[cjk[1]] : 0) + CJK_EXPONENTS[cjk[2]];
+};
+
+// Shifting the exponent in text keeps "1.1千" at 1100 instead of 1100.0000000000002
+const scaleByPowerOfTen = (value: number, exponent: number): number => {
+  if (exponent === 0) return value;
+  const shifted = Number(`${value}e${exponent}`);
+  return Number.isNaN(shifted) ? value * 10 ** exponent : shifted;
+};
+
+const normalizeText = (text: string): string =>
+  // NFKC folds full-width digits, signs and punctuation ("１２．５％", "（３００）") to ASCII
+  text.normalize('NFKC').replace(/[−‒–]/g, '-').trim();
+
+/**
+ * Reads the digits-and-separators part of a number. Group separators
+ * must sit every three digits so that e.g. "1,5" is not silently read as
+ * 15 when the column uses a decimal point.
+ */
+const parseNumberBody = (body: string, separator: ResolvedSeparator): number => {
+  const compact = body.replace(/[\s']/g, '');
+  if (SCIENTIFIC.test(compact)) return Number(compact);
+
+  const [group, decimal] = separator === 'dot' ? [',', '.'] : ['.', ','];
+  const g = `\\${group}`;
+  const d = `\\${decimal}`;
+  const pattern = new RegExp(`^(?:\\d{1,3}(?:${g}\\d{3})+|\\d+)?(?:${d}\\d*)?$`);
+  if (!/\d/.test(compact) || !pattern.test(compact)) return NaN;
+
+  return Number(compact.split(group).join('').replace(decimal, '.'));
+};
+
+/**
+ * Converts one spreadsheet cell to a number. Handles thousands separators,
+ * decimal commas, percentages, currency symbols, accounting negatives
+ * "(3,000)", trailing minus "500-", full-width characters and trailing
+ * units. Magnitude suffixes (K/M/B, 千/萬/億) scale the value. Returns NaN
+ * for empty or non-numeric cells.
+ */
+export const parseNumericCell = (
+  cell: unknown,
+  separator: ResolvedSeparator,
+  percentAsFraction = false
+): number => {
+  if (typeof cell === 'number') return Number.isFinite(cell) ? cell : NaN;
+  if (typeof cell !== 'string') return NaN;
+
+  let text = normalizeText(cell);
+  if (text === '') return NaN;
+
+  let negative = false;
+  const accounting = text.match(/^\((.*)\)$/);
+  if (accounting) {
+    negative = true;
+    text = accounting[1].trim();
+  }
+
+  const takeSign = () => {
+    const sign = text.match(/^[+-]/);
+    if (sign) {
+      if (sign[0] === '-') negative = !negative;
+      text = text.slice(1).trim();
+    }
+  };
+
+  takeSign();
+  text = text.replace(CURRENCY_PREFIX, '').trim();
+  takeSign(); // "NT$-5,000"
+
+  let exponent = 0;
+  const unit = text.match(UNIT_SUFFIX);
+  if (unit) {
+    exponent = getMagnitudeExponent(unit[0].trim());
+    text = text.slice(0, unit.index).trim();
+  }
+  let percent = false;
+  if (text.endsWith('%')) {
+    percent = true;
+    text = text.slice(0, -1).trim();
+  }
+  if (text.endsWith('-')) {
+    negative = !negative;
+    text = text.slice(0, -1).trim();
+  }
+
+  const value = parseNumberBody(text, separator);
+  if (Number.isNaN(value)) return NaN;
+
+  const magnified = scaleByPowerOfTen(value, exponent);
+  const scaled = percent && percentAsFraction ? magnified / 100 : magnified;
+  return negative ? -scaled : scaled;
+};
+
+/**
+ * True when the cell reads as a number under either separator convention.
+ * Used for layout detection, before the user has picked a number format.
+ */
+export const isNumericCell = (cell: unknown): boolean =>
+  !Number.isNaN(parseNumericCell(cell, 'dot')) || !Number.isNaN(parseNumericCell(cell, 'comma'));
+
+/**
+ * Guesses the decimal separator of a column from its text cells. A cell
+ * with both separators is decided by the last one; a single separator
+ * followed by other than three digits must be the decimal mark. Ambiguous
+ * columns ("1,234") default to a decimal point.
+ */
+export const detectDecimalSeparator = (cells: unknown[]): ResolvedSeparator => {
+  let dotVotes = 0;
+  let commaVotes = 0;
+
+  cells.forEach(cell => {
+    if (typeof cell !== 'string') return;
+    const text = normalizeText(cell);
+    const lastDot = text.lastIndexOf('.');
+    const lastComma = text.lastIndexOf(',');
+    if (lastDot >= 0 && lastComma >= 0) {
+      if (lastDot > lastComma) dotVotes++; else commaVotes++;
+      return;
+    }
+    const single = text.match(/\d([.,])(\d*)(?!.*[.,])/);
+    if (!single || single[2].length === 3) return;
+    if (single[1] === '.') dotVotes++; else commaVotes++;
+  });
+
+  return commaVotes > dotVotes ? 'comma' : 'dot';
+};
+
+/**
+ * Parses a whole column (or row, in row orientation) and reports how many
+ * cells were converted from text or rejected.
+ */
+export const parseNumericSeries = (
+  name: string,
+  cells: unknown[],
+  options: NumberFormatOptions
+): { values: number[]; report: ColumnParseReport } => {
+  const separator = options.decimalSeparator === 'auto'
+    ? detectDecimalSeparator(cells)
+    : options.decimalSeparator;
+
+  const report: ColumnParseReport = { name, numeric: 0, converted: 0, rejected: 0, empty: 0, rejectedSamples: [] };
+  const values = cells.map(cell => {
+    if (cell === null || cell === undefined || (typeof cell === 'string' && cell.trim() === '')) {
+      report.empty++;
+      return NaN;
+    }
+    const value = parseNumericCell(cell, separator, options.percentAsFraction);
+    if (Number.isNaN(value)) {
+      report.rejected++;
+      const sample = String(cell);
+      if (report.rejectedSamples.length < MAX_REJECTED_SAMPLES && !report.rejectedSamples.includes(sample)) {
+        report.rejectedSamples.push(sample);
+      }
+    } else if (typeof cell === 'number') {
+      report.numeric++;
+    } else {
+      report.converted++;
+    }
+    return value;
+  });
+
+  return { values, report };
+};
@@ -0,0 +1,179 @@
+import { Matrix, MatrixOrdering } from '../types';
+import { symmetricEigen } from './linearAlgebra';
+import { isSquareMatrix } from './statistics';
+
+export const MATRIX_ORDERING_LABELS: Record<MatrixOrdering, string> = {
+  original: '原始順序',
+  alphabetical: '依名稱排序',
+  hclustAverage: '階層分群 (平均連結)',
+  hclustComplete: '階層分群 (完全連結)',
+  pcaAngle: '主成分角度',
+};
+
+/** A node of a hierarchical clustering tree; leaves carry the variable index. */
+export interface ClusterNode {
+  height: number;
+  index?: number;
+  children?: [ClusterNode, ClusterNode];
+}
+
+type Linkage = 'average' | 'complete';
+
+/**
+ * Agglomerative hierarchical clustering on a distance matrix, merging the
+ * closest pair of clusters until one remains. Distances to a merged
+ * cluster follow the Lance–Williams update for the chosen linkage.
+ */
+export const hierarchicalClustering = (distance: number[][], linkage: Linkage): ClusterNode | null => {
+  const n = distance.length;
+  if (n === 0) return null;
+
+  const nodes: ClusterNode[] = Array.from({ length: n }, (_, i) => ({ height: 0, index: i }));
+  const sizes = Array(n).fill(1);
+  const d = distance.map(row => [...row]);
+  const active = new Set(Array.from({ length: n }, (_, i) => i));
+
+  while (active.size > 1) {
+    let best = Infinity;
+    let bi = -1;
+    let bj = -1;
+    for (const i of active) {
+      for (const j of active) {
+        if (j <= i) continue;
+        if (d[i][j] < best) {
+          best = d[i][j];
+          bi = i;
+          bj = j;
+        }
+      }
+    }
+
+    // Merge bj into bi
+    for (const k of active) {
+      if (k === bi || k === bj) continue;
+      const merged = linkage === 'complete'
+        ? Math.max(d[bi][k], d[bj][k])
+        : (sizes[bi] * d[bi][k] + sizes[bj] * d[bj][k]) / (sizes[bi] + sizes[bj]);
+      d[bi][k] = d[k][bi] = merged;
+    }
+    nodes[bi] = { height: best, children: [nodes[bi], nodes[bj]] };
+    sizes[bi] += sizes[bj];
+    active.delete(bj);
+  }
+
+  return nodes[active.values().next().value as number];
+};
+
+/** Leaf indices of a cluster tree from left to right. */
+export const getLeafOrder = (node: ClusterNode): number[] => {
+  if (!node.children) return node.index !== undefined ? [node.index] : [];
+  return [...getLeafOrder(node.children[0]), ...getLeafOrder(node.children[1])];
+};
+
+/**
+ * Angular order of the first two principal components (as in R's corrplot
+ * "AOE"): each variable is placed by the angle of its loadings on the
+ * first two eigenvectors of the correlation matrix.
+ */
+const angularOrder = (grid: number[][]): number[] => {
+  const n = grid.length;
+  if (n < 3) return grid.map((_, i) => i);
+  const { vectors } = symmetricEigen(grid);
+  const [e1, e2] = vectors;
+  const angles = e1.map((x, i) => (x > 0 ? Math.atan(e2[i] / x) : Math.atan(e2[i] / x) + Math.PI));
+  return angles.map((_, i) => i).sort((a, b) => angles[a] - angles[b]);
+};
+
+/**
+ * Root-mean-square difference between two coefficient profiles, the
+ * distance used to cluster one axis of a rectangular matrix.
+ */
+const profileDistance = (a: number[], b: number[]): number =>
+  Math.sqrt(a.reduce((sum, v, k) => sum + (v - b[k]) ** 2, 0) / Math.max(1, a.length));
+
+export interface MatrixOrder {
+  rowOrder: number[];
+  columnOrder: number[];
+  rowDendrogram: ClusterNode | null;
+  columnDendrogram: ClusterNode | null;
+}
+
+/**
+ * Computes the display order of a matrix's variables. Clustered orderings
+ * also return the dendrograms; undefined correlations count as |r| = 0.
+ * A square matrix is ordered once for both axes. A rectangular matrix is
+ * clustered per axis by the rows' (or columns') coefficient profiles; the
+ * PCA angle needs a symmetric matrix and leaves it in its original order.
+ */
+export const computeOrdering = (matrix: Matrix, ordering: MatrixOrdering): MatrixOrder => {
+  const rowIdentity = matrix.rowVariables.map((_, i) => i);
+  const columnIdentity = matrix.columnVariables.map((_, j) => j);
+  const byName = (names: string[]) => (a: number, b: number) => names[a].localeCompare(names[b], 'zh-Hant');
+  const linkage: Linkage = ordering === 'hclustAverage' ? 'average' : 'complete';
+
+  if (isSquareMatrix(matrix)) {
+    const grid = matrix.grid.map((row, i) => row.map((v, j) => (i === j ? 1 : v ?? 0)));
+    const same = (order: number[], dendrogram: ClusterNode | null = null): MatrixOrder =>
+      ({ rowOrder: order, columnOrder: order, rowDendrogram: dendrogram, columnDendrogram: dendrogram });
+
+    switch (ordering) {
+      case 'alphabetical':
+        return same([...rowIdentity].sort(byName(matrix.rowVariables)));
+      case 'hclustAverage':
+      case 'hclustComplete': {
+        const distance = grid.map(row => row.map(v => 1 - Math.abs(v)));
+        const dendrogram = hierarchicalClustering(distance, linkage);
+        return same(dendrogram ? getLeafOrder(dendrogram) : rowIdentity, dendrogram);
+      }
+      case 'pcaAngle':
+        return same(angularOrder(grid));
+      default:
+        return same(rowIdentity);
+    }
+  }
+
+  switch (ordering) {
+    case 'alphabetical':
+      return {
+        rowOrder: [...rowIdentity].sort(byName(matrix.rowVariables)),
+        columnOrder: [...columnIdentity].sort(byName(matrix.columnVariables)),
+        rowDendrogram: null,
+        columnDendrogram: null,
+      };
+    case 'hclustAverage':
+    case 'hclustComplete': {
+      const rows = matrix.grid.map(row => row.map(v => v ?? 0));
+      const columns = columnIdentity.map(j => rows.map(row => row[j]));
+      const cluster = (profiles: number[][]) =>
+        hierarchicalClustering(profiles.map(a => profiles.map(b => profileDistance(a, b))), linkage);
+      const rowDendrogram = cluster(rows);
+      const columnDendrogram = cluster(columns);
+      return {
+        rowOrder: rowDendrogram ? getLeafOrder(rowDendrogram) : rowIdentity,
+        columnOrder: columnDendrogram ? getLeafOrder(columnDendrogram) : columnIdentity,
+        rowDendrogram,
+        columnDendrogram,
+      };
+    }
+    default:
+      return { rowOrder: rowIdentity, columnOrder: columnIdentity, rowDendrogram: null, columnDendrogram: null };
+  }
+};
+
+/**
+ * Returns a copy of the matrix with rows and columns permuted to the given
+ * orders. Lag results only exist on square matrices.
+ */
+export const reorderMatrix = (matrix: Matrix, rowOrder: number[], columnOrder: number[]): Matrix => {
+  const permute = <T>(cells: T[][]) => rowOrder.map(i => columnOrder.map(j => cells[i][j]));
+  return {
+    ...matrix,
+    rowVariables: rowOrder.map(i => matrix.rowVariables[i]),
+    columnVariables: columnOrder.map(j => matrix.columnVariables[j]),
+    grid: permute(matrix.grid),
+    pValues: permute(matrix.pValues),
+    sampleSizes: permute(matrix.sampleSizes),
+    undefinedReasons: permute(matrix.undefinedReasons),
+    lag: matrix.lag && { ...matrix.lag, bestLags: permute(matrix.lag.bestLags) },
+  };
+};
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePartialCorrelation } from './partialCorrelation';
+
+const x = [1, 2, 3, 4, 5, 6];
+const y = [2, 1, 4, 3, 6, 5];
+const z = [1, 3, 2, 5, 4, 6];
+
+describe('calculatePartialCorrelation', () => {
+  it('blames a constant analyzed variable on the series', () => {
+    expect(calculatePartialCorrelation(x, [3, 3, 3, 3, 3, 3], [z], 'pearson').undefinedReason).toBe('constantSeries');
+  });
+
+  it('blames a constant control on the covariance, not the analyzed variables', () => {
+    expect(calculatePartialCorrelation(x, y, [[5, 5, 5, 5, 5, 5]], 'pearson').undefinedReason).toBe('singularCovariance');
+    expect(calculatePartialCorrelation(x, y, [z, [5, 5, 5, 5, 5, 5]], 'pearson').undefinedReason).toBe('singularCovariance');
+  });
+});
@@ -0,0 +1,118 @@
+import { CorrelationMethod, Matrix, UndefinedCorrelationReason, VariableData } from '../types';
+import { invertMatrix } from './linearAlgebra';
+import { calculateCorrelation, correlationTTestPValue, ProgressCallback } from './statistics';
+
+/**
+ * Keeps only the rows where every series has a finite value.
+ */
+const getCompleteRows = (series: number[][]): number[][] => {
+  const length = Math.max(0, ...series.map(s => s.length));
+  const columns: number[][] = series.map(() => []);
+  for (let i = 0; i < length; i++) {
+    if (series.every(s => s[i] !== undefined && Number.isFinite(s[i]))) {
+      series.forEach((s, k) => columns[k].push(s[i]));
+    }
+  }
+  return columns;
+};
+
+interface PartialPairCorrelation {
+  coefficient: number | null;
+  pValue: number | null;
+  n: number;
+  undefinedReason: UndefinedCorrelationReason | null;
+}
+
+/**
+ * Partial correlation of x and y controlling for the given covariates.
+ * Uses the rows complete on x, y and every control, builds their
+ * correlation matrix with the chosen method and reads the partial
+ * coefficient from its inverse P: r_xy·Z = -P_xy / sqrt(P_xx · P_yy).
+ * The significance test is the t-test with n - 2 - k degrees of freedom.
+ */
+export const calculatePartialCorrelation = (
+  x: number[],
+  y: number[],
+  controls: number[][],
+  method: CorrelationMethod
+): PartialPairCorrelation => {
+  const k = controls.length;
+  const columns = getCompleteRows([x, y, ...controls]);
+  const n = columns[0].length;
+
+  if (n < k + 3) {
+    return { coefficient: null, pValue: null, n, undefinedReason: 'insufficientPairs' };
+  }
+
+  const size = k + 2;
+  const corr: number[][] = Array.from({ length: size }, (_, i) => Array.from({ length: size }, (_, j) => (i === j ? 1 : 0)));
+  for (let i = 0; i < size; i++) {
+    for (let j = i + 1; j < size; j++) {
+      const r = calculateCorrelation(columns[i], columns[j], method);
+      if (r === null) {
+        // Only the first pair (x, y) can reveal a constant x or y; any later
+        // null comes from a constant control
+        const reason = i === 0 && j === 1 ? 'constantSeries' : 'singularCovariance';
+        return { coefficient: null, pValue: null, n, undefinedReason: reason };
+      }
+      corr[i][j] = r;
+      corr[j][i] = r;
+    }
+  }
+
+  const precision = invertMatrix(corr);
+  if (!precision || precision[0][0] <= 0 || precision[1][1] <= 0) {
+    return { coefficient: null, pValue: null, n, undefinedReason: 'singularCovariance' };
+  }
+
+  const partial = Math.max(-1, Math.min(1, -precision[0][1] / Math.sqrt(precision[0][0] * precision[1][1])));
+  // n - k effective pairs gives n - 2 - k degrees of freedom
+  return { coefficient: partial, pValue: correlationTTestPValue(partial, n - k), n, undefinedReason: null };
+};
+
+/**
+ * Generates a matrix of partial correlations among `data`, controlling
+ * every pair for all of the `controls` series.
+ */
+export const generatePartialCorrelationMatrix = (
+  data: VariableData[],
+  controls: VariableData[],
+  method: CorrelationMethod = 'pearson',
+  onProgress?: ProgressCallback
+): Matrix => {
+  const variables = data.map(d => d.name);
+  const controlValues = controls.map(c => c.values);
+  const n = variables.length;
+  const grid: (number | null)[][] = Array(n).fill(null).map(() => Array(n).fill(null));
+  const pValues: (number | null)[][] = Array(n).fill(null).map(() => Array(n).fill(null));
+  const sampleSizes: number[][] = Array(n).fill(null).map(() => Array(n).fill(0));
+  const undefinedReasons: (UndefinedCorrelationReason | null)[][] = Array(n).fill(null).map(() => Array(n).fill(null));
+  const totalPairs = (n * (n - 1)) / 2;
+  let completedPairs = 0;
+
+  for (let i = 0; i < n; i++) {
+    grid[i][i] = 1;
+    sampleSizes[i][i] = getCompleteRows([data[i].values, ...controlValues])[0].length;
+    for (let j = i + 1; j < n; j++) {
+      const { coefficient, pValue, n: pairCount, undefinedReason } =
+        calculatePartialCorrelation(data[i].values, data[j].values, controlValues, method);
+      grid[i][j] = grid[j][i] = coefficient;
+      pValues[i][j] = pValues[j][i] = pValue;
+      sampleSizes[i][j] = sampleSizes[j][i] = pairCount;
+      undefinedReasons[i][j] = undefinedReasons[j][i] = undefinedReason;
+      completedPairs++;
+    }
+    onProgress?.(completedPairs, totalPairs);
+  }
+
+  return {
+    rowVariables: variables,
+    columnVariables: variables,
+    grid,
+    pValues,
+    sampleSizes,
+    undefinedReasons,
+    method,
+    controlVariables: controls.map(c => c.name),
+  };
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { generateRollingCorrelations, getOrderLabels } from './rollingCorrelation';
+
+describe('getOrderLabels', () => {
+  it('formats Excel serials and text dates as ISO dates', () => {
+    expect(getOrderLabels([45292, 45321])).toEqual(['2024-01-01', '2024-01-30']);
+    expect(getOrderLabels(['2024/1/5', '2024-01-06'])).toEqual(['2024-01-05', '2024-01-06']);
+  });
+
+  it('keeps indices and years as numbers', () => {
+    expect(getOrderLabels([1, 2, 3])).toEqual(['1', '2', '3']);
+    expect(getOrderLabels([2023, 2024])).toEqual(['2023', '2024']);
+    expect(getOrderLabels(['1', '2'])).toEqual(['1', '2']);
+  });
+
+  it('leaves blank cells undefined so windows fall back to the row number', () => {
+    const orderLabels = getOrderLabels([null, '', '  ', 45292]);
+    expect(orderLabels).toEqual([undefined, undefined, undefined, '2024-01-01']);
+
+    const series = (name: string) => ({ name, values: [1, 2, 3, 5] });
+    const [window] = generateRollingCorrelations([series('a'), series('b')], 'pearson', {
+      orderColumn: '日期', window: 4, step: 1, orderLabels,
+    });
+    expect(window.startLabel).toBe('第 1 筆');
+    expect(window.endLabel).toBe('2024-01-01');
+  });
+});
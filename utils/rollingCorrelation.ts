@@ -0,0 +1,76 @@
+import { CorrelationMethod, RollingSettings, RollingWindow, VariableData } from '../types';
+import { generateCorrelationMatrix, ProgressCallback } from './statistics';
+import { formatDayNumber, toDayNumber } from './rowFilter';
+
+// Keeps the result (one grid per window) small enough to pass back from the worker
+export const MAX_ROLLING_WINDOWS = 2000;
+
+// Excel serials for 1950-01-01 and 2099-12-31. A numeric order column is
+// only read as dates inside this range, so period indices and years stay numbers.
+const DATE_SERIAL_RANGE: [number, number] = [18264, 73050];
+
+const isBlankCell = (cell: unknown) => cell === null || cell === undefined || String(cell).trim() === '';
+
+/**
+ * Window labels from the order column's cells: dates (Excel serials, Date
+ * objects and text dates) become YYYY-MM-DD, blank cells are left undefined
+ * so the window falls back to the observation number.
+ */
+export const getOrderLabels = (cells: unknown[]): (string | undefined)[] => {
+  const numbers = cells.filter((cell): cell is number => typeof cell === 'number');
+  const serialDates = numbers.length > 0 && numbers.every(n => n >= DATE_SERIAL_RANGE[0] && n <= DATE_SERIAL_RANGE[1]);
+
+  return cells.map(cell => {
+    if (isBlankCell(cell)) return undefined;
+    if (typeof cell === 'number') return serialDates ? formatDayNumber(toDayNumber(cell)) : String(cell);
+    // Numeric text is an index, not a date, even though Date.parse accepts some of it
+    const text = String(cell).trim();
+    if (!(cell instanceof Date) && /^[-+]?\d+(\.\d+)?$/.test(text)) return text;
+    const day = toDayNumber(cell);
+    return Number.isNaN(day) ? text : formatDayNumber(day);
+  });
+};
+
+/**
+ * Start and end (inclusive) of each full window. A trailing partial window
+ * is dropped so every window has the same size.
+ */
+export const getWindowRanges = (length: number, window: number, step: number): { start: number; end: number }[] => {
+  const ranges: { start: number; end: number }[] = [];
+  if (window < 2 || step < 1) return ranges;
+  for (let start = 0; start + window <= length; start += step) {
+    ranges.push({ start, end: start + window - 1 });
+  }
+  return ranges;
+};
+
+/**
+ * Runs `generateCorrelationMatrix` on every sliding window of the (already
+ * sorted) observations. Progress is reported across all windows.
+ */
+export const generateRollingCorrelations = (
+  data: VariableData[],
+  method: CorrelationMethod,
+  settings: RollingSettings,
+  onProgress?: ProgressCallback
+): RollingWindow[] => {
+  const length = data[0]?.values.length ?? 0;
+  const ranges = getWindowRanges(length, settings.window, settings.step);
+
+  return ranges.map(({ start, end }, w) => {
+    const slice = data.map(v => ({ name: v.name, values: v.values.slice(start, end + 1) }));
+    const { grid, sampleSizes } = generateCorrelationMatrix(
+      slice,
+      method,
+      onProgress && ((completed, total) => onProgress(w * total + completed, ranges.length * total))
+    );
+    return {
+      start,
+      end,
+      startLabel: settings.orderLabels[start] ?? `第 ${start + 1} 筆`,
+      endLabel: settings.orderLabels[end] ?? `第 ${end + 1} 筆`,
+      grid,
+      sampleSizes,
+    };
+  });
+};
@@ -0,0 +1,33 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { toDayNumber } from './rowFilter';
+
+describe('toDayNumber', () => {
+  const originalTimeZone = process.env.TZ;
+  beforeEach(() => {
+    // East of UTC, local midnight falls on the previous UTC day
+    process.env.TZ = 'Asia/Taipei';
+  });
+  afterEach(() => {
+    process.env.TZ = originalTimeZone;
+  });
+
+  it('gives every text form of a date the same day', () => {
+    const day = toDayNumber('2024-01-05');
+    expect(day).toBe(19727);
+    expect(toDayNumber('2024/1/5')).toBe(day);
+    expect(toDayNumber('01/05/2024')).toBe(day);
+    expect(toDayNumber('Jan 5, 2024')).toBe(day);
+  });
+
+  it('does not read numeric text as a date', () => {
+    expect(toDayNumber('1')).toBeNaN();
+    expect(toDayNumber('12')).toBeNaN();
+    expect(toDayNumber('2024')).toBeNaN();
+    expect(toDayNumber('3.5')).toBeNaN();
+  });
+
+  it('reads numbers as Excel serials', () => {
+    expect(toDayNumber(45296)).toBe(19727);
+    expect(toDayNumber(0)).toBeNaN();
+  });
+});
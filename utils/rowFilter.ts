@@ -0,0 +1,151 @@
+import { RowFilter, RowFilterCondition, RowFilterOperator, RowFilterSummary } from '../types';
+import { parseNumericCell } from './numberParsing';
+
+export const ROW_FILTER_OPERATOR_LABELS: Record<RowFilterOperator, string> = {
+  equals: '等於',
+  inList: '屬於清單',
+  numberRange: '數值範圍',
+  dateRange: '日期範圍',
+  contains: '包含文字',
+};
+
+const MS_PER_DAY = 86400000;
+// Days between the Excel epoch (1899-12-30) and the Unix epoch
+const EXCEL_EPOCH_OFFSET = 25569;
+// Excel serials for 1900-01-01 and 9999-12-31
+const EXCEL_SERIAL_RANGE: [number, number] = [1, 2958465];
+
+const normalizeText = (cell: unknown) => String(cell ?? '').normalize('NFKC').trim().toLowerCase();
+
+const splitList = (value: string) => value.split(/[,，;\n]/).map(normalizeText).filter(v => v !== '');
+
+const toNumber = (cell: unknown): number => {
+  const value = parseNumericCell(cell, 'dot');
+  return Number.isNaN(value) ? parseNumericCell(cell, 'comma') : value;
+};
+
+/**
+ * Converts a cell to a day number (days since 1970-01-01, UTC). Numbers are
+ * read as Excel date serials; text accepts "2024-01-05", "2024/1/5" and
+ * anything Date.parse understands, by its local calendar date. Returns NaN
+ * when the cell is not a date.
+ */
+export const toDayNumber = (cell: unknown): number => {
+  if (cell instanceof Date) return Math.floor(cell.getTime() / MS_PER_DAY);
+  if (typeof cell === 'number') {
+    if (cell < EXCEL_SERIAL_RANGE[0] || cell > EXCEL_SERIAL_RANGE[1]) return NaN;
+    return Math.floor(cell) - EXCEL_EPOCH_OFFSET;
+  }
+  if (typeof cell !== 'string') return NaN;
+
+  const text = cell.normalize('NFKC').trim();
+  const ymd = text.match(/^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})/);
+  if (ymd) {
+    return Math.floor(Date.UTC(Number(ymd[1]), Number(ymd[2]) - 1, Number(ymd[3])) / MS_PER_DAY);
+  }
+  // Date.parse is lenient enough to read "12" as 2001-12-01, so numeric text is not a date
+  if (/^[-+]?\d+(?:\.\d+)?$/.test(text)) return NaN;
+  // Date.parse reads other forms ("01/05/2024", "Jan 5, 2024") as local time,
+  // so the day is taken from the local calendar date, not the UTC instant
+  const parsed = new Date(text);
+  if (Number.isNaN(parsed.getTime())) return NaN;
+  return Math.floor(Date.UTC(parsed.getFullYear(), parsed.getMonth(), parsed.getDate()) / MS_PER_DAY);
+};
+
+/** ISO date (YYYY-MM-DD) of a day number from `toDayNumber`. */
+export const formatDayNumber = (day: number): string => new Date(day * MS_PER_DAY).toISOString().slice(0, 10);
+
+/**
+ * Incomplete conditions (no value, no bounds) are ignored rather than
+ * filtering out every row while the user is still typing.
+ */
+export const isConditionActive = (condition: RowFilterCondition): boolean => {
+  switch (condition.operator) {
+    case 'equals':
+    case 'contains':
+      return condition.value.trim() !== '';
+    case 'inList':
+      return splitList(condition.value).length > 0;
+    case 'numberRange':
+    case 'dateRange':
+      return condition.min.trim() !== '' || condition.max.trim() !== '';
+  }
+};
+
+const inRange = (value: number, min: number, max: number) =>
+  !Number.isNaN(value) && (Number.isNaN(min) || value >= min) && (Number.isNaN(max) || value <= max);
+
+const matchesCondition = (row: any[], condition: RowFilterCondition): boolean => {
+  const cell = row[condition.column];
+  switch (condition.operator) {
+    case 'equals':
+      return normalizeText(cell) === normalizeText(condition.value);
+    case 'inList':
+      return splitList(condition.value).includes(normalizeText(cell));
+    case 'contains':
+      return normalizeText(cell).includes(normalizeText(condition.value));
+    case 'numberRange':
+      return inRange(
+        toNumber(cell),
+        condition.min.trim() === '' ? NaN : toNumber(condition.min),
+        condition.max.trim() === '' ? NaN : toNumber(condition.max)
+      );
+    case 'dateRange':
+      return inRange(toDayNumber(cell), toDayNumber(condition.min), toDayNumber(condition.max));
+  }
+};
+
+/**
+ * Returns the indices of the rows that pass the active conditions,
+ * combined with AND or OR, in their original order.
+ */
+export const filterRowIndices = (rows: any[][], filter: RowFilter): number[] => {
+  const active = filter.conditions.filter(isConditionActive);
+  const indices: number[] = [];
+  rows.forEach((row, i) => {
+    const passes = active.length === 0 || (filter.combinator === 'and'
+      ? active.every(c => matchesCondition(row, c))
+      : active.some(c => matchesCondition(row, c)));
+    if (passes) indices.push(i);
+  });
+  return indices;
+};
+
+export const describeCondition = (condition: RowFilterCondition, columnName: string): string => {
+  const { min, max } = condition;
+  switch (condition.operator) {
+    case 'equals':
+      return `${columnName} = ${condition.value.trim()}`;
+    case 'inList':
+      return `${columnName} ∈ {${condition.value.split(/[,，;\n]/).map(v => v.trim()).filter(v => v !== '').join(', ')}}`;
+    case 'contains':
+      return `${columnName} 包含「${condition.value.trim()}」`;
+    case 'numberRange':
+    case 'dateRange':
+      if (min.trim() !== '' && max.trim() !== '') return `${min.trim()} ≤ ${columnName} ≤ ${max.trim()}`;
+      return min.trim() !== '' ? `${columnName} ≥ ${min.trim()}` : `${columnName} ≤ ${max.trim()}`;
+  }
+};
+
+/**
+ * Builds the record of which subset was analyzed, or undefined when no
+ * condition is active.
+ */
+export const summarizeRowFilter = (
+  filter: RowFilter,
+  headers: string[],
+  rowsPassed: number,
+  totalRows: number
+): RowFilterSummary | undefined => {
+  const active = filter.conditions.filter(isConditionActive);
+  if (active.length === 0) return undefined;
+  return {
+    combinator: filter.combinator,
+    conditions: active.map(c => describeCondition(c, headers[c.column] || `欄位 ${c.column + 1}`)),
+    rowsPassed,
+    totalRows,
+  };
+};
+
+export const formatRowFilter = (summary: RowFilterSummary): string =>
+  summary.conditions.join(summary.combinator === 'and' ? ' 且 ' : ' 或 ');
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { calculateLinearRegression, calculatePearsonCorrelation, correlatePair } from './statistics';
+
+// Reference values computed with scipy.stats (pearsonr, spearmanr, kendalltau)
+const X = [1, 2, 3, 4, 5];
+const Y = [2, 4, 5, 4, 5];
+
+describe('correlatePair', () => {
+  it('matches the reference coefficients and p-values', () => {
+    const pearson = correlatePair(X, Y, 'pearson');
+    expect(pearson.coefficient).toBeCloseTo(0.7745966692414834, 12);
+    expect(pearson.pValue).toBeCloseTo(0.1240270626575494, 8);
+    expect(pearson.n).toBe(5);
+
+    expect(correlatePair(X, Y, 'spearman').coefficient).toBeCloseTo(0.7378647873726218, 12);
+    expect(correlatePair(X, Y, 'kendall').coefficient).toBeCloseTo(0.6708203932499369, 12);
+  });
+
+  it('keeps its precision for large values with a small spread', () => {
+    const shifted = X.map(v => 1e9 + v);
+    expect(correlatePair(shifted, Y, 'pearson').coefficient).toBeCloseTo(0.7745966692414834, 12);
+  });
+
+  it('clamps rounding overshoot to ±1', () => {
+    // Unclamped, this exactly linear pair evaluates to 1.0000000000000002
+    const x = [0.217, 0.317, 0.41700000000000004, 0.517, 0.617];
+    const y = x.map(v => v * 3.3 + 0.7);
+    expect(calculatePearsonCorrelation(x, y)).toBe(1);
+    expect(calculatePearsonCorrelation(x, y.map(v => -v))).toBe(-1);
+  });
+
+  it.each([0.1, 0.3, 1.1, 3.7, 123456789.12])('reports a constant series of %s as undefined', value => {
+    const constant = Array(100).fill(value);
+    const y = constant.map((_, i) => i * 0.7 + Math.sin(i));
+    for (const method of ['pearson', 'spearman', 'kendall'] as const) {
+      expect(correlatePair(constant, y, method)).toMatchObject({ coefficient: null, pValue: null, undefinedReason: 'constantSeries' });
+    }
+    expect(calculateLinearRegression(constant, y)).toBeNull();
+  });
+});
@@ -1,70 +1,653 @@
+import { CorrelationMethod, CorrelationResult, Matrix, UndefinedCorrelationReason, VariableData } from '../types';
+
+export const CORRELATION_METHOD_LABELS: Record<CorrelationMethod, string> = {
+  pearson: 'Pearson',
+  spearman: 'Spearman',
+  kendall: 'Kendall tau-b',
+};
+
+export const CORRELATION_METHOD_SYMBOLS: Record<CorrelationMethod, string> = {
+  pearson: 'r',
+  spearman: 'ρ',
+  kendall: 'τ',
+};
+
+export const UNDEFINED_REASON_LABELS: Record<UndefinedCorrelationReason, string> = {
+  constantSeries: '至少一個變數為常數（變異數為 0）',
+  insufficientPairs: '有效配對數不足',
+  singularCovariance: '控制變數共線（共變異矩陣奇異），無法計算偏相關',
+};
+
 /**
- * Calculates the Pearson correlation coefficient between two arrays of numbers.
- * Handles arrays of different lengths by using only paired valid values.
- * Returns null if calculation is impossible (e.g., zero variance or insufficient data).
+ * Extracts the pairwise-complete observations of two series.
+ * A pair is kept only when both values exist and are finite numbers.
  */
-export const calculatePearsonCorrelation = (x: number[], y: number[]): number | null => {
-  // Use the shorter length to pair values
+export const getPairedValues = (x: number[], y: number[]): [number[], number[]] => {
   const maxLen = Math.max(x.length, y.length);
-  
-  let sumX = 0;
-  let sumY = 0;
-  let sumXY = 0;
-  let sumXSq = 0;
-  let sumYSq = 0;
-  let validCount = 0;
+  const pairedX: number[] = [];
+  const pairedY: number[] = [];
 
-  // Only use paired valid values
   for (let i = 0; i < maxLen; i++) {
     const xi = x[i];
     const yi = y[i];
-
-    // Skip if either value is missing or not a finite number
     if (xi === undefined || yi === undefined) continue;
     if (!Number.isFinite(xi) || !Number.isFinite(yi)) continue;
+    pairedX.push(xi);
+    pairedY.push(yi);
+  }
+
+  return [pairedX, pairedY];
+};
+
+/**
+ * Converts values to 1-based ranks. Tied values receive the average of the
+ * ranks they span, e.g. [10, 20, 20, 30] -> [1, 2.5, 2.5, 4].
+ */
+export const rankValues = (values: number[]): number[] => {
+  const order = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+  const ranks: number[] = new Array(values.length);
 
-    sumX += xi;
-    sumY += yi;
-    sumXY += xi * yi;
-    sumXSq += xi * xi;
-    sumYSq += yi * yi;
-    validCount++;
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (end + 1 < order.length && values[order[end + 1]] === values[order[start]]) {
+      end++;
+    }
+    // Positions start..end share the same value: assign the mean rank
+    const avgRank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) {
+      ranks[order[k]] = avgRank;
+    }
+    start = end + 1;
   }
 
+  return ranks;
+};
+
+/**
+ * True when every value equals the first. Checked directly because the
+ * centered sum of squares of a constant non-integer series is rarely
+ * exactly zero after rounding.
+ */
+const isConstantSeries = (values: number[]): boolean => values.every(v => v === values[0]);
+
+/**
+ * Calculates the Pearson correlation coefficient between two arrays of numbers.
+ * Handles arrays of different lengths by using only paired valid values.
+ * Returns null if calculation is impossible (e.g., zero variance or insufficient data).
+ *
+ * Uses a two-pass centered algorithm: the means are found first and the
+ * sums of squares are accumulated from deviations. The one-pass raw-sums
+ * formula (n·ΣXY − ΣXΣY) cancels catastrophically for large values with
+ * small spread, such as revenue in the hundreds of millions.
+ */
+export const calculatePearsonCorrelation = (x: number[], y: number[]): number | null => {
+  const [pairedX, pairedY] = getPairedValues(x, y);
+  const validCount = pairedX.length;
+
   // Need at least 2 paired values for correlation
   if (validCount < 2) return null;
+  if (isConstantSeries(pairedX) || isConstantSeries(pairedY)) return null; // Undefined if either series has no variance
+
+  let meanX = 0;
+  let meanY = 0;
+  for (let i = 0; i < validCount; i++) {
+    meanX += pairedX[i];
+    meanY += pairedY[i];
+  }
+  meanX /= validCount;
+  meanY /= validCount;
+
+  let sumXY = 0;
+  let sumXSq = 0;
+  let sumYSq = 0;
+  for (let i = 0; i < validCount; i++) {
+    const dx = pairedX[i] - meanX;
+    const dy = pairedY[i] - meanY;
+    sumXY += dx * dy;
+    sumXSq += dx * dx;
+    sumYSq += dy * dy;
+  }
+
+  if (sumXSq === 0 || sumYSq === 0) return null;
+
+  // Rounding can still push |r| a hair past 1
+  const r = sumXY / Math.sqrt(sumXSq * sumYSq);
+  return Math.max(-1, Math.min(1, r));
+};
+
+/**
+ * Ordinary least squares fit of y on x over the paired valid values.
+ * Returns null when x has no variance or fewer than 2 pairs exist.
+ */
+export const calculateLinearRegression = (
+  x: number[],
+  y: number[]
+): { slope: number; intercept: number; rSquared: number } | null => {
+  const [pairedX, pairedY] = getPairedValues(x, y);
+  const n = pairedX.length;
+  if (n < 2 || isConstantSeries(pairedX)) return null;
+
+  const meanX = pairedX.reduce((a, b) => a + b, 0) / n;
+  const meanY = pairedY.reduce((a, b) => a + b, 0) / n;
+  let sumXY = 0;
+  let sumXSq = 0;
+  for (let i = 0; i < n; i++) {
+    sumXY += (pairedX[i] - meanX) * (pairedY[i] - meanY);
+    sumXSq += (pairedX[i] - meanX) ** 2;
+  }
+  if (sumXSq === 0) return null;
+
+  const slope = sumXY / sumXSq;
+  const r = calculatePearsonCorrelation(pairedX, pairedY);
+  return { slope, intercept: meanY - slope * meanX, rSquared: r === null ? 0 : r * r };
+};
+
+/**
+ * Calculates the Spearman rank correlation coefficient.
+ * Pairs are ranked after pairwise deletion, with ties given averaged ranks,
+ * and the Pearson coefficient of those ranks is returned.
+ */
+export const calculateSpearmanCorrelation = (x: number[], y: number[]): number | null => {
+  const [pairedX, pairedY] = getPairedValues(x, y);
+  if (pairedX.length < 2) return null;
+  return calculatePearsonCorrelation(rankValues(pairedX), rankValues(pairedY));
+};
+
+/** Sizes of the runs of equal adjacent values in an already sorted sequence. */
+const getTieGroupSizes = (length: number, isSameAsPrevious: (i: number) => boolean): number[] => {
+  const sizes: number[] = [];
+  let run = 1;
+  for (let i = 1; i <= length; i++) {
+    if (i < length && isSameAsPrevious(i)) {
+      run++;
+    } else {
+      if (run > 1) sizes.push(run);
+      run = 1;
+    }
+  }
+  return sizes;
+};
+
+const sumOver = (sizes: number[], f: (t: number) => number) => sizes.reduce((acc, t) => acc + f(t), 0);
+
+interface KendallStatistics {
+  tau: number | null;
+  /** Tie-corrected normal approximation of the test statistic */
+  z: number | null;
+  n: number;
+}
+
+/**
+ * Computes Kendall's tau-b with Knight's O(n log n) algorithm: sort by x,
+ * then count the discordant pairs as the inversions of y with a merge sort.
+ * The z statistic uses the tie-corrected variance of S = concordant - discordant.
+ */
+const computeKendallStatistics = (x: number[], y: number[]): KendallStatistics => {
+  const [pairedX, pairedY] = getPairedValues(x, y);
+  const n = pairedX.length;
+  if (n < 2) return { tau: null, z: null, n };
+
+  const order = pairedX
+    .map((_, i) => i)
+    .sort((a, b) => pairedX[a] - pairedX[b] || pairedY[a] - pairedY[b]);
+  const xs = order.map(i => pairedX[i]);
+  let ys = order.map(i => pairedY[i]);
+
+  const pairsOf = (t: number) => (t * (t - 1)) / 2;
+  const totalPairs = pairsOf(n);
+  const xGroups = getTieGroupSizes(n, i => xs[i] === xs[i - 1]);
+  const jointGroups = getTieGroupSizes(n, i => xs[i] === xs[i - 1] && ys[i] === ys[i - 1]);
+
+  // Bottom-up merge sort on y, counting strictly decreasing pairs
+  let discordant = 0;
+  let buffer = new Array<number>(n);
+  for (let width = 1; width < n; width *= 2) {
+    for (let lo = 0; lo < n; lo += 2 * width) {
+      const mid = Math.min(lo + width, n);
+      const hi = Math.min(lo + 2 * width, n);
+      let i = lo;
+      let j = mid;
+      let k = lo;
+      while (i < mid && j < hi) {
+        if (ys[j] < ys[i]) {
+          discordant += mid - i;
+          buffer[k++] = ys[j++];
+        } else {
+          buffer[k++] = ys[i++];
+        }
+      }
+      while (i < mid) buffer[k++] = ys[i++];
+      while (j < hi) buffer[k++] = ys[j++];
+    }
+    [ys, buffer] = [buffer, ys];
+  }
+
+  const yGroups = getTieGroupSizes(n, i => ys[i] === ys[i - 1]);
+
+  const xTies = sumOver(xGroups, pairsOf);
+  const yTies = sumOver(yGroups, pairsOf);
+  const jointTies = sumOver(jointGroups, pairsOf);
+
+  const denominator = Math.sqrt((totalPairs - xTies) * (totalPairs - yTies));
+  if (denominator === 0) return { tau: null, z: null, n }; // Undefined if either series has no variance
+
+  const concordantMinusDiscordant = totalPairs - xTies - yTies + jointTies - 2 * discordant;
+
+  const v0 = n * (n - 1) * (2 * n + 5);
+  const vx = sumOver(xGroups, t => t * (t - 1) * (2 * t + 5));
+  const vy = sumOver(yGroups, t => t * (t - 1) * (2 * t + 5));
+  const v1 = (sumOver(xGroups, t => t * (t - 1)) * sumOver(yGroups, t => t * (t - 1))) / (2 * n * (n - 1));
+  const v2 = n > 2
+    ? (sumOver(xGroups, t => t * (t - 1) * (t - 2)) * sumOver(yGroups, t => t * (t - 1) * (t - 2))) / (9 * n * (n - 1) * (n - 2))
+    : 0;
+  const variance = (v0 - vx - vy) / 18 + v1 + v2;
+
+  return {
+    tau: concordantMinusDiscordant / denominator,
+    z: variance > 0 ? concordantMinusDiscordant / Math.sqrt(variance) : null,
+    n,
+  };
+};
+
+/**
+ * Calculates Kendall's tau-b, which corrects for ties in either series.
+ */
+export const calculateKendallCorrelation = (x: number[], y: number[]): number | null => {
+  return computeKendallStatistics(x, y).tau;
+};
+
+/** Natural log of the gamma function (Lanczos approximation). */
+const logGamma = (z: number): number => {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+  const x = z;
+  let y = z;
+  let tmp = x + 5.5;
+  tmp -= (x + 0.5) * Math.log(tmp);
+  let series = 1.000000000190015;
+  for (const c of coefficients) {
+    series += c / ++y;
+  }
+  return -tmp + Math.log((2.5066282746310005 * series) / x);
+};
+
+/** Continued fraction for the incomplete beta function (modified Lentz's method). */
+const betaContinuedFraction = (a: number, b: number, x: number): number => {
+  const MAX_ITERATIONS = 300;
+  const EPSILON = 3e-14;
+  const TINY = 1e-300;
 
-  const numerator = validCount * sumXY - sumX * sumY;
-  const denominator = Math.sqrt(
-    (validCount * sumXSq - sumX * sumX) * (validCount * sumYSq - sumY * sumY)
+  const qab = a + b;
+  const qap = a + 1;
+  const qam = a - 1;
+  let c = 1;
+  let d = 1 - (qab * x) / qap;
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= MAX_ITERATIONS; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((qam + m2) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (qab + m) * x) / ((a + m2) * (qap + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+
+  return h;
+};
+
+/** Regularized incomplete beta function I_x(a, b). */
+const regularizedIncompleteBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+  // The continued fraction converges fastest on this side of the mean
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(a, b, x)) / a;
+  }
+  return 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+};
+
+/** Two-sided p-value of a Student's t statistic with `df` degrees of freedom. */
+export const studentTTwoSidedPValue = (t: number, df: number): number => {
+  if (!Number.isFinite(t)) return 0;
+  return regularizedIncompleteBeta(df / (df + t * t), df / 2, 0.5);
+};
+
+/** Complementary error function (Chebyshev approximation, relative error < 1.2e-7). */
+const erfc = (x: number): number => {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const r = t * Math.exp(
+    -z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 +
+    t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 +
+    t * (-0.82215223 + t * 0.17087277))))))))
   );
+  return x >= 0 ? r : 2 - r;
+};
+
+/** Two-sided p-value of a standard normal statistic. */
+export const normalTwoSidedPValue = (z: number): number => {
+  return Math.min(1, erfc(Math.abs(z) / Math.SQRT2));
+};
 
-  if (denominator === 0) return 0; // No correlation if no variance
+/**
+ * Two-sided p-value for a Pearson or Spearman coefficient from n pairs,
+ * using t = r * sqrt((n - 2) / (1 - r^2)) with n - 2 degrees of freedom.
+ */
+export const correlationTTestPValue = (r: number, n: number): number | null => {
+  const df = n - 2;
+  if (df < 1) return null;
+  if (Math.abs(r) >= 1) return 0;
+  const t = r * Math.sqrt(df / (1 - r * r));
+  return studentTTwoSidedPValue(t, df);
+};
 
-  return numerator / denominator;
+export interface PairCorrelation {
+  coefficient: number | null;
+  /** Two-sided p-value; null when there are too few pairs to test */
+  pValue: number | null;
+  /** Number of pairwise-complete observations */
+  n: number;
+  /** Why the coefficient is undefined; null when it was computed */
+  undefinedReason: UndefinedCorrelationReason | null;
+}
+
+const getUndefinedReason = (coefficient: number | null, n: number): UndefinedCorrelationReason | null => {
+  if (coefficient !== null) return null;
+  return n < 2 ? 'insufficientPairs' : 'constantSeries';
 };
 
+/**
+ * Calculates the coefficient of a pair together with its significance test:
+ * the t-test for Pearson and Spearman, and the tie-corrected normal
+ * approximation for Kendall's tau-b.
+ */
+export const correlatePair = (x: number[], y: number[], method: CorrelationMethod): PairCorrelation => {
+  if (method === 'kendall') {
+    const { tau, z, n } = computeKendallStatistics(x, y);
+    return {
+      coefficient: tau,
+      pValue: z === null ? null : normalTwoSidedPValue(z),
+      n,
+      undefinedReason: getUndefinedReason(tau, n),
+    };
+  }
+
+  const [pairedX, pairedY] = getPairedValues(x, y);
+  const n = pairedX.length;
+  const coefficient = method === 'spearman'
+    ? calculateSpearmanCorrelation(pairedX, pairedY)
+    : calculatePearsonCorrelation(pairedX, pairedY);
+  const pValue = coefficient === null ? null : correlationTTestPValue(coefficient, n);
+  return { coefficient, pValue, n, undefinedReason: getUndefinedReason(coefficient, n) };
+};
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation,
+ * relative error < 1.2e-9).
+ */
+export const normalQuantile = (p: number): number => {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const lowerTail = 0.02425;
+
+  if (p < lowerTail) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - lowerTail) {
+    return -normalQuantile(1 - p);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+/**
+ * Standard error of Fisher's z for each method. Rank coefficients use the
+ * Fieller, Hartley & Pearson (1957) variance corrections.
+ */
+export const fisherStandardError = (n: number, method: CorrelationMethod): number | null => {
+  if (method === 'kendall') return n > 4 ? Math.sqrt(0.437 / (n - 4)) : null;
+  if (n <= 3) return null;
+  return method === 'spearman' ? Math.sqrt(1.06 / (n - 3)) : 1 / Math.sqrt(n - 3);
+};
+
+/**
+ * Confidence interval of a correlation coefficient via the Fisher z-transform:
+ * tanh(atanh(r) ± z_crit * SE). Returns null when n is too small.
+ */
+export const fisherConfidenceInterval = (
+  r: number,
+  n: number,
+  level: number = 0.95,
+  method: CorrelationMethod = 'pearson'
+): [number, number] | null => {
+  const se = fisherStandardError(n, method);
+  if (se === null) return null;
+  if (Math.abs(r) >= 1) return [r, r];
+
+  const z = Math.atanh(r);
+  const margin = normalQuantile((1 + level) / 2) * se;
+  return [Math.tanh(z - margin), Math.tanh(z + margin)];
+};
+
+/**
+ * True when rows and columns hold the same variables in the same order,
+ * i.e. an all-against-all matrix with a diagonal.
+ */
+export const isSquareMatrix = (matrix: Matrix): boolean =>
+  matrix.rowVariables.length === matrix.columnVariables.length &&
+  matrix.rowVariables.every((name, i) => name === matrix.columnVariables[i]);
+
+/**
+ * Key of an unordered variable pair, so that (a, b) and (b, a) match.
+ */
+export const getPairKey = (var1: string, var2: string): string =>
+  var1 < var2 ? `${var1}\u0000${var2}` : `${var2}\u0000${var1}`;
+
+/**
+ * Builds the per-pair result for cell (i, j) of a matrix. Pass adjusted
+ * p-values to report them instead of the raw ones.
+ */
+export const getCorrelationResult = (
+  matrix: Matrix,
+  i: number,
+  j: number,
+  confidenceLevel: number = 0.95,
+  pValues: (number | null)[][] = matrix.pValues
+): CorrelationResult => {
+  const coefficient = matrix.grid[i][j];
+  const n = matrix.sampleSizes[i][j];
+  // Each control variable costs one degree of freedom
+  const effectiveN = n - (matrix.controlVariables?.length ?? 0);
+  const var1 = matrix.rowVariables[i];
+  const var2 = matrix.columnVariables[j];
+  return {
+    var1,
+    var2,
+    coefficient,
+    pValue: pValues[i][j],
+    n,
+    confidenceInterval: var1 === var2 || coefficient === null
+      ? null
+      : fisherConfidenceInterval(coefficient, effectiveN, confidenceLevel, matrix.method),
+  };
+};
+
+/**
+ * Every unique pair of the matrix, row by row, as a CorrelationResult,
+ * using the given (possibly adjusted) p-values. A pair that appears twice
+ * (mirrored cells) is listed once; same-variable cells are skipped.
+ */
+export const listCorrelationPairs = (
+  matrix: Matrix,
+  confidenceLevel: number = 0.95,
+  pValues: (number | null)[][] = matrix.pValues
+): CorrelationResult[] => {
+  const pairs: CorrelationResult[] = [];
+  const seen = new Set<string>();
+  matrix.rowVariables.forEach((rowVar, i) => {
+    matrix.columnVariables.forEach((colVar, j) => {
+      const key = getPairKey(rowVar, colVar);
+      if (rowVar === colVar || seen.has(key)) return;
+      seen.add(key);
+      pairs.push(getCorrelationResult(matrix, i, j, confidenceLevel, pValues));
+    });
+  });
+  return pairs;
+};
+
+/**
+ * Significance stars for a p-value: *** p < .001, ** p < .01, * p < .05.
+ */
+export const getSignificanceStars = (pValue: number | null): string => {
+  if (pValue === null) return '';
+  if (pValue < 0.001) return '***';
+  if (pValue < 0.01) return '**';
+  if (pValue < 0.05) return '*';
+  return '';
+};
+
+/** Formats a p-value for display, e.g. "0.0123" or "< 0.0001". */
+export const formatPValue = (pValue: number | null): string => {
+  if (pValue === null) return 'N/A';
+  if (pValue < 0.0001) return '< 0.0001';
+  return pValue.toFixed(4);
+};
+
+/**
+ * Calculates the correlation between two series using the chosen method.
+ */
+export const calculateCorrelation = (x: number[], y: number[], method: CorrelationMethod): number | null => {
+  switch (method) {
+    case 'spearman':
+      return calculateSpearmanCorrelation(x, y);
+    case 'kendall':
+      return calculateKendallCorrelation(x, y);
+    default:
+      return calculatePearsonCorrelation(x, y);
+  }
+};
+
+/** Reports how many of the matrix's unique pairs have been computed so far. */
+export type ProgressCallback = (completedPairs: number, totalPairs: number) => void;
+
 /**
  * Generates a full correlation matrix from a list of variable data series.
  */
-export const generateCorrelationMatrix = (data: import('../types').VariableData[]): import('../types').Matrix => {
+export const generateCorrelationMatrix = (
+  data: VariableData[],
+  method: CorrelationMethod = 'pearson',
+  onProgress?: ProgressCallback
+): Matrix => {
   const variables = data.map(d => d.name);
   const n = variables.length;
-  const grid: number[][] = Array(n).fill(null).map(() => Array(n).fill(0));
+  const grid: (number | null)[][] = Array(n).fill(null).map(() => Array(n).fill(null));
+  const pValues: (number | null)[][] = Array(n).fill(null).map(() => Array(n).fill(null));
+  const sampleSizes: number[][] = Array(n).fill(null).map(() => Array(n).fill(0));
+  const undefinedReasons: (UndefinedCorrelationReason | null)[][] = Array(n).fill(null).map(() => Array(n).fill(null));
+  const totalPairs = (n * (n - 1)) / 2;
+  let completedPairs = 0;
 
   for (let i = 0; i < n; i++) {
     for (let j = 0; j < n; j++) {
       if (i === j) {
         grid[i][j] = 1; // Self correlation is always 1
+        sampleSizes[i][i] = data[i].values.filter(v => Number.isFinite(v)).length;
       } else if (j > i) {
         // Calculate only upper triangle to save time, matrix is symmetric
-        const corr = calculatePearsonCorrelation(data[i].values, data[j].values);
-        const val = corr !== null ? corr : 0;
-        grid[i][j] = val;
-        grid[j][i] = val;
+        const { coefficient, pValue, n: pairCount, undefinedReason } = correlatePair(data[i].values, data[j].values, method);
+        grid[i][j] = coefficient;
+        grid[j][i] = coefficient;
+        undefinedReasons[i][j] = undefinedReason;
+        undefinedReasons[j][i] = undefinedReason;
+        pValues[i][j] = pValue;
+        pValues[j][i] = pValue;
+        sampleSizes[i][j] = pairCount;
+        sampleSizes[j][i] = pairCount;
+        completedPairs++;
       }
     }
+    onProgress?.(completedPairs, totalPairs);
   }
 
-  return { variables, grid };
-};
\ No newline at end of file
+  return { rowVariables: variables, columnVariables: variables, grid, pValues, sampleSizes, undefinedReasons, method };
+};
+
+/**
+ * Generates a rectangular matrix: every row variable against every column
+ * variable. A variable may be in both sets; its own cell is the diagonal
+ * (r = 1) and a pair that appears twice is computed once.
+ */
+export const generateRectangularCorrelationMatrix = (
+  rows: VariableData[],
+  columns: VariableData[],
+  method: CorrelationMethod = 'pearson',
+  onProgress?: ProgressCallback
+): Matrix => {
+  const grid: (number | null)[][] = rows.map(() => Array(columns.length).fill(null));
+  const pValues: (number | null)[][] = rows.map(() => Array(columns.length).fill(null));
+  const sampleSizes: number[][] = rows.map(() => Array(columns.length).fill(0));
+  const undefinedReasons: (UndefinedCorrelationReason | null)[][] = rows.map(() => Array(columns.length).fill(null));
+  const computed = new Map<string, PairCorrelation>();
+  const totalCells = rows.length * columns.length;
+
+  rows.forEach((rowVar, i) => {
+    columns.forEach((colVar, j) => {
+      if (rowVar.name === colVar.name) {
+        grid[i][j] = 1;
+        sampleSizes[i][j] = rowVar.values.filter(v => Number.isFinite(v)).length;
+        return;
+      }
+      const key = getPairKey(rowVar.name, colVar.name);
+      let result = computed.get(key);
+      if (!result) {
+        result = correlatePair(rowVar.values, colVar.values, method);
+        computed.set(key, result);
+      }
+      grid[i][j] = result.coefficient;
+      pValues[i][j] = result.pValue;
+      sampleSizes[i][j] = result.n;
+      undefinedReasons[i][j] = result.undefinedReason;
+    });
+    onProgress?.((i + 1) * columns.length, totalCells);
+  });
+
+  return {
+    rowVariables: rows.map(v => v.name),
+    columnVariables: columns.map(v => v.name),
+    grid,
+    pValues,
+    sampleSizes,
+    undefinedReasons,
+    method,
+  };
+};
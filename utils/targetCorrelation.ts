@@ -0,0 +1,26 @@
+import { CorrelationMethod, TargetCorrelation, VariableData } from '../types';
+import { correlatePair, fisherConfidenceInterval, ProgressCallback } from './statistics';
+
+/**
+ * Correlates one target with each candidate: n - 1 pairs instead of the
+ * n(n - 1) / 2 of a full matrix. Progress counts candidates.
+ */
+export const generateTargetCorrelations = (
+  target: VariableData,
+  candidates: VariableData[],
+  method: CorrelationMethod,
+  onProgress?: ProgressCallback
+): TargetCorrelation[] =>
+  candidates.map((candidate, i) => {
+    const { coefficient, pValue, n, undefinedReason } = correlatePair(target.values, candidate.values, method);
+    onProgress?.(i + 1, candidates.length);
+    return {
+      var1: target.name,
+      var2: candidate.name,
+      coefficient,
+      pValue,
+      n,
+      confidenceInterval: coefficient === null ? null : fisherConfidenceInterval(coefficient, n, 0.95, method),
+      undefinedReason,
+    };
+  });
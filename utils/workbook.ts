@@ -0,0 +1,97 @@
+import * as XLSX from 'xlsx';
+
+export interface SheetSummary {
+  name: string;
+  rowCount: number;
+  colCount: number;
+  preview: any[][]; // Top-left corner of the sheet
+}
+
+// Size of the mini preview shown for each sheet
+const PREVIEW_ROWS = 4;
+const PREVIEW_COLS = 6;
+
+// Name of the column added when several sheets are stacked together
+export const SHEET_COLUMN_NAME = '工作表';
+
+/**
+ * Lists every sheet in the workbook with its used-range dimensions and a
+ * small preview. Only the preview range is converted, so large sheets
+ * stay cheap to summarize.
+ */
+export const summarizeSheets = (workbook: XLSX.WorkBook): SheetSummary[] => {
+  return workbook.SheetNames.map(name => {
+    const worksheet = workbook.Sheets[name];
+    const ref = worksheet?.['!ref'];
+    if (!ref) return { name, rowCount: 0, colCount: 0, preview: [] };
+
+    const range = XLSX.utils.decode_range(ref);
+    const previewRange = {
+      s: range.s,
+      e: {
+        r: Math.min(range.e.r, range.s.r + PREVIEW_ROWS - 1),
+        c: Math.min(range.e.c, range.s.c + PREVIEW_COLS - 1),
+      },
+    };
+    return {
+      name,
+      rowCount: range.e.r - range.s.r + 1,
+      colCount: range.e.c - range.s.c + 1,
+      preview: XLSX.utils.sheet_to_json<any[]>(worksheet, { header: 1, defval: null, range: previewRange }),
+    };
+  });
+};
+
+/**
+ * Converts one sheet to an array of row arrays (empty cells become null).
+ */
+export const sheetToRows = (workbook: XLSX.WorkBook, name: string): any[][] => {
+  return XLSX.utils.sheet_to_json<any[]>(workbook.Sheets[name], { header: 1, defval: null });
+};
+
+const getSheetWidth = (rows: any[][]) => rows.reduce((max, r) => Math.max(max, r.length), 0);
+
+/**
+ * Checks that the sheets can be stacked: same column count and, when the
+ * first row is a header, the same header text. Returns an error message
+ * or null when the layouts match.
+ */
+export const findLayoutMismatch = (workbook: XLSX.WorkBook, names: string[], hasHeaderRow: boolean): string | null => {
+  const sheets = names.map(name => ({ name, rows: sheetToRows(workbook, name) }));
+  const [first, ...rest] = sheets;
+  if (!first) return null;
+
+  const headerKey = (rows: any[][]) => (rows[0] ?? []).map(c => String(c ?? '').trim()).join('\u0000');
+
+  for (const sheet of rest) {
+    if (getSheetWidth(sheet.rows) !== getSheetWidth(first.rows)) {
+      return `「${sheet.name}」的欄位數與「${first.name}」不同`;
+    }
+    if (hasHeaderRow && headerKey(sheet.rows) !== headerKey(first.rows)) {
+      return `「${sheet.name}」的標題列與「${first.name}」不同`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Stacks several sheets with the same layout into one dataset and appends
+ * a column holding each row's source sheet name. With a header row, the
+ * first sheet's header is kept and the other sheets' headers are dropped.
+ */
+export const stackSheets = (workbook: XLSX.WorkBook, names: string[], hasHeaderRow: boolean): any[][] => {
+  const sheets = names.map(name => ({ name, rows: sheetToRows(workbook, name) }));
+  const width = sheets.reduce((max, s) => Math.max(max, getSheetWidth(s.rows)), 0);
+  const pad = (row: any[]) => Array.from({ length: width }, (_, i) => row[i] ?? null);
+
+  const stacked: any[][] = [];
+  if (hasHeaderRow && sheets.length > 0) {
+    stacked.push([...pad(sheets[0].rows[0] ?? []), SHEET_COLUMN_NAME]);
+  }
+  sheets.forEach(({ name, rows }) => {
+    (hasHeaderRow ? rows.slice(1) : rows).forEach(row => {
+      stacked.push([...pad(row), name]);
+    });
+  });
+  return stacked;
+};
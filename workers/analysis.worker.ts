@@ -0,0 +1,28 @@
+import { AnalysisResult, AnalysisWorkerRequest, AnalysisWorkerResponse } from '../types';
+import { analyzeTarget, analyzeVariables } from '../utils/analysis';
+
+// Progress messages are throttled so a large matrix does not flood the main thread
+const PROGRESS_INTERVAL_MS = 100;
+
+const post = (message: AnalysisWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const { variables, options } = event.data;
+  let lastPost = 0;
+
+  try {
+    const onProgress = (completed: number, total: number) => {
+      const now = Date.now();
+      if (now - lastPost >= PROGRESS_INTERVAL_MS || completed === total) {
+        lastPost = now;
+        post({ type: 'progress', progress: { completed, total } });
+      }
+    };
+    const result: AnalysisResult = options.target
+      ? { type: 'target', analysis: analyzeTarget(variables, options, onProgress) }
+      : { type: 'matrix', matrix: analyzeVariables(variables, options, onProgress) };
+    post({ type: 'result', result });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};